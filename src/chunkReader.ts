@@ -0,0 +1,72 @@
+/**
+ * Bounded little-endian reader for the payload of a single IFF chunk
+ * Reads past the end of the chunk return zero values and set `overrun`
+ * so decoders can flag truncated data instead of throwing.
+ */
+
+export class ChunkReader {
+    private pos: number;
+    private readonly end: number;
+    public overrun: boolean = false;
+
+    constructor(private readonly data: Uint8Array, start: number, size: number) {
+        this.pos = start;
+        this.end = Math.min(start + size, data.length);
+    }
+
+    get remaining(): number {
+        return Math.max(0, this.end - this.pos);
+    }
+
+    readInt32(): number {
+        return this.readUint32() | 0;
+    }
+
+    readUint32(): number {
+        if (!this.take(4)) return 0;
+        const p = this.pos - 4;
+        return (this.data[p] |
+                (this.data[p + 1] << 8) |
+                (this.data[p + 2] << 16) |
+                (this.data[p + 3] << 24)) >>> 0;
+    }
+
+    readFloat32(): number {
+        if (!this.take(4)) return 0;
+        const p = this.pos - 4;
+        const view = new DataView(this.data.buffer, this.data.byteOffset + p, 4);
+        return view.getFloat32(0, true);
+    }
+
+    readUint8(): number {
+        if (!this.take(1)) return 0;
+        return this.data[this.pos - 1];
+    }
+
+    readBool(): boolean {
+        return this.readInt32() !== 0;
+    }
+
+    readString(): string {
+        let str = '';
+        while (this.pos < this.end && this.data[this.pos] !== 0) {
+            str += String.fromCharCode(this.data[this.pos++]);
+        }
+        if (this.pos < this.end) {
+            this.pos++; // Skip null terminator
+        } else {
+            this.overrun = true;
+        }
+        return str;
+    }
+
+    private take(count: number): boolean {
+        if (this.pos + count > this.end) {
+            this.pos = this.end;
+            this.overrun = true;
+            return false;
+        }
+        this.pos += count;
+        return true;
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * Flora Preview
+ * Scatters preview flora positions the way the terrain tiles flora: one
+ * candidate per flora tile, jittered inside the tile border from the MapInfo
+ * seed, kept when a random draw falls under the density the layers leave there
+ *
+ * The client uses its own random sequence, so individual positions differ;
+ * coverage and density match what the layers produce.
+ */
+
+import { MapInfo } from './trnParser';
+import { FloraCategory, TerrainHeightEvaluator } from './trnHeight';
+
+export const FLORA_CATEGORIES: FloraCategory[] = ['collidable', 'nonCollidable', 'radialNear', 'radialFar'];
+
+export interface FloraTiling {
+    tileSize: number;
+    tileBorder: number;
+    seed: number;
+}
+
+export interface FloraPoint {
+    x: number;
+    z: number;
+    category: FloraCategory;
+    familyId: number;
+}
+
+// Candidate flora tiles per axis in one request; larger areas keep every Nth tile
+const MAX_CANDIDATES_PER_AXIS = 32;
+
+export function getFloraTiling(mapInfo: MapInfo, category: FloraCategory): FloraTiling {
+    switch (category) {
+        case 'collidable':
+            return { tileSize: mapInfo.floraCollidableTileSize, tileBorder: mapInfo.floraCollidableTileBorder, seed: mapInfo.floraCollidableSeed };
+        case 'nonCollidable':
+            return { tileSize: mapInfo.floraNonCollidableTileSize, tileBorder: mapInfo.floraNonCollidableTileBorder, seed: mapInfo.floraNonCollidableSeed };
+        case 'radialNear':
+            return { tileSize: mapInfo.radialNearTileSize, tileBorder: mapInfo.radialNearTileBorder, seed: mapInfo.radialNearSeed };
+        case 'radialFar':
+            return { tileSize: mapInfo.radialFarTileSize, tileBorder: mapInfo.radialFarTileBorder, seed: mapInfo.radialFarSeed };
+    }
+}
+
+/**
+ * Scatter flora over a square area for every category
+ * The kept tiles are aligned to a power-of-two stride, so a coarser request
+ * returns a subset of the points a finer one does
+ */
+export function scatterFlora(evaluator: TerrainHeightEvaluator, mapInfo: MapInfo, minX: number, minZ: number, size: number): FloraPoint[] {
+    const points: FloraPoint[] = [];
+
+    for (const category of FLORA_CATEGORIES) {
+        const { tileSize, tileBorder, seed } = getFloraTiling(mapInfo, category);
+        if (!(tileSize > 0)) continue;
+
+        const stride = Math.pow(2, Math.max(0, Math.ceil(Math.log2(size / tileSize / MAX_CANDIDATES_PER_AXIS))));
+        const columns = tileIndices(minX, size, tileSize, stride);
+        const rows = tileIndices(minZ, size, tileSize, stride);
+        const inner = tileSize - 2 * Math.max(0, tileBorder);
+
+        for (const tz of rows) {
+            for (const tx of columns) {
+                const random = tileRandom(seed, tx, tz);
+                const x = tx * tileSize + (inner > 0 ? tileBorder + random() * inner : tileSize / 2);
+                const z = tz * tileSize + (inner > 0 ? tileBorder + random() * inner : tileSize / 2);
+                if (x < mapInfo.mapBoundsMin || x > mapInfo.mapBoundsMax || z < mapInfo.mapBoundsMin || z > mapInfo.mapBoundsMax) continue;
+
+                const hit = evaluator.sample(x, z).flora[category];
+                if (hit && random() < Math.min(1, hit.density)) {
+                    points.push({ x, z, category, familyId: hit.familyId });
+                }
+            }
+        }
+    }
+    return points;
+}
+
+// Indices of flora tiles starting inside [start, start + size), keeping multiples of `stride`
+function tileIndices(start: number, size: number, tileSize: number, stride: number): number[] {
+    const indices: number[] = [];
+    const first = Math.ceil(Math.ceil(start / tileSize) / stride) * stride;
+    for (let i = first; i * tileSize < start + size; i += stride) {
+        indices.push(i);
+    }
+    return indices;
+}
+
+// mulberry32 seeded per flora tile so a tile always draws the same numbers
+function tileRandom(seed: number, tx: number, tz: number): () => number {
+    let state = (seed ^ Math.imul(tx, 0x27D4EB2D) ^ Math.imul(tz, 0x165667B1)) >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
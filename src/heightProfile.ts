@@ -0,0 +1,145 @@
+/**
+ * Height Profile
+ * Samples computed terrain height at even steps along a polyline and finds
+ * where the line enters and leaves boundaries
+ *
+ * Crossings are located by bisecting between neighbouring samples, so a
+ * boundary narrower than one step can be missed.
+ */
+
+import { Boundary, Point2D, isPointInBoundary } from './trnParser';
+import { TerrainHeightEvaluator } from './trnHeight';
+
+export interface ProfileMarker {
+    distance: number;
+    entering: boolean;
+    name: string;
+    type: Boundary['type'];
+    offset: number;         // Boundary FORM offset, to match the webview's boundary list
+}
+
+export interface HeightProfile {
+    length: number;
+    distances: number[];
+    heights: number[];
+    markers: ProfileMarker[];   // Sorted by distance
+}
+
+export const MAX_PROFILE_SAMPLES = 2048;
+
+export function sampleHeightProfile(
+    evaluator: TerrainHeightEvaluator,
+    boundaries: Boundary[],
+    points: Point2D[],
+    sampleCount: number
+): HeightProfile {
+    const path = new PolylinePath(points);
+    const count = Math.max(2, Math.min(MAX_PROFILE_SAMPLES, Math.floor(sampleCount) || 2));
+    const distances: number[] = [];
+    const heights: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const distance = path.length * i / (count - 1);
+        const p = path.pointAt(distance);
+        distances.push(distance);
+        heights.push(evaluator.getHeight(p.x, p.z));
+    }
+
+    const markers: ProfileMarker[] = [];
+    const lineBounds = boundsOf(points);
+    for (const boundary of boundaries) {
+        if (!overlaps(lineBounds, boundaryBounds(boundary))) continue;
+
+        const inside = (distance: number) => {
+            const p = path.pointAt(distance);
+            return isPointInBoundary(p.x, p.z, boundary);
+        };
+        const marker = (distance: number, entering: boolean) =>
+            markers.push({ distance, entering, name: boundary.name, type: boundary.type, offset: boundary.offset });
+
+        let wasInside = inside(0);
+        if (wasInside) marker(0, true);
+        for (let i = 1; i < count; i++) {
+            const isInside = inside(distances[i]);
+            if (isInside !== wasInside) {
+                // Narrow down the crossing between the two samples
+                let lo = distances[i - 1];
+                let hi = distances[i];
+                for (let step = 0; step < 16; step++) {
+                    const mid = (lo + hi) / 2;
+                    if (inside(mid) === wasInside) lo = mid; else hi = mid;
+                }
+                marker((lo + hi) / 2, isInside);
+                wasInside = isInside;
+            }
+        }
+        if (wasInside) marker(path.length, false);
+    }
+    markers.sort((a, b) => a.distance - b.distance);
+
+    return { length: path.length, distances, heights, markers };
+}
+
+/**
+ * Arc-length parameterisation of a polyline
+ */
+class PolylinePath {
+    readonly length: number;
+    private cumulative: number[] = [0];
+
+    constructor(private readonly points: Point2D[]) {
+        let total = 0;
+        for (let i = 1; i < points.length; i++) {
+            total += Math.hypot(points[i].x - points[i - 1].x, points[i].z - points[i - 1].z);
+            this.cumulative.push(total);
+        }
+        this.length = total;
+    }
+
+    pointAt(distance: number): Point2D {
+        const points = this.points;
+        if (points.length === 1 || distance <= 0) return points[0];
+        let i = 1;
+        while (i < points.length - 1 && this.cumulative[i] < distance) i++;
+        const segment = this.cumulative[i] - this.cumulative[i - 1];
+        const t = segment > 0 ? Math.min(1, (distance - this.cumulative[i - 1]) / segment) : 0;
+        return {
+            x: points[i - 1].x + (points[i].x - points[i - 1].x) * t,
+            z: points[i - 1].z + (points[i].z - points[i - 1].z) * t
+        };
+    }
+}
+
+interface Bounds {
+    minX: number;
+    maxX: number;
+    minZ: number;
+    maxZ: number;
+}
+
+function boundsOf(points: Point2D[], pad = 0): Bounds {
+    const xs = points.map(p => p.x);
+    const zs = points.map(p => p.z);
+    return {
+        minX: Math.min(...xs) - pad,
+        maxX: Math.max(...xs) + pad,
+        minZ: Math.min(...zs) - pad,
+        maxZ: Math.max(...zs) + pad
+    };
+}
+
+function boundaryBounds(b: Boundary): Bounds {
+    switch (b.type) {
+        case 'circle':
+            return { minX: b.centerX - b.radius, maxX: b.centerX + b.radius, minZ: b.centerZ - b.radius, maxZ: b.centerZ + b.radius };
+        case 'rectangle':
+            return { minX: Math.min(b.x1, b.x2), maxX: Math.max(b.x1, b.x2), minZ: Math.min(b.z1, b.z2), maxZ: Math.max(b.z1, b.z2) };
+        case 'polygon':
+            return b.vertices.length ? boundsOf(b.vertices) : { minX: 0, maxX: -1, minZ: 0, maxZ: -1 };
+        case 'polyline':
+            return b.vertices.length ? boundsOf(b.vertices, b.width / 2) : { minX: 0, maxX: -1, minZ: 0, maxZ: -1 };
+    }
+}
+
+function overlaps(a: Bounds, b: Bounds): boolean {
+    return a.minX <= b.maxX && b.minX <= a.maxX && a.minZ <= b.maxZ && b.minZ <= a.maxZ;
+}
@@ -0,0 +1,159 @@
+/**
+ * Heightmap Export
+ * Samples the computed terrain height over the whole map and encodes it as a
+ * 16-bit grayscale PNG, a raw little-endian .r16 and a JSON sidecar
+ *
+ * Rows run north to south (max Z first), columns west to east. Samples sit on
+ * the grid corners, so an N x N export spans the map edge to edge.
+ */
+
+import * as zlib from 'zlib';
+import { TerrainHeightEvaluator } from './trnHeight';
+
+export interface HeightmapBounds {
+    minX: number;
+    maxX: number;
+    minZ: number;
+    maxZ: number;
+}
+
+export interface HeightmapSidecar {
+    source: string;
+    width: number;
+    height: number;
+    minHeight: number;
+    maxHeight: number;
+    worldBounds: HeightmapBounds;
+    metersPerPixel: number;
+    rowOrder: 'north-to-south';
+    encoding: string;
+}
+
+export interface CancellationFlag {
+    readonly isCancellationRequested: boolean;
+}
+
+// Common sizes for external terrain tools (2^n + 1 samples)
+export const HEIGHTMAP_RESOLUTIONS = [257, 513, 1025, 2049, 4097];
+
+/**
+ * Sample heights row by row, yielding between rows so progress and
+ * cancellation are handled. Resolves to null when cancelled.
+ */
+export async function sampleHeightmap(
+    evaluator: TerrainHeightEvaluator,
+    bounds: HeightmapBounds,
+    resolution: number,
+    onProgress: (rowsDone: number) => void,
+    token: CancellationFlag
+): Promise<Float32Array | null> {
+    const heights = new Float32Array(resolution * resolution);
+    const stepX = (bounds.maxX - bounds.minX) / (resolution - 1);
+    const stepZ = (bounds.maxZ - bounds.minZ) / (resolution - 1);
+
+    for (let row = 0; row < resolution; row++) {
+        if (token.isCancellationRequested) return null;
+
+        const z = bounds.maxZ - row * stepZ;
+        for (let col = 0; col < resolution; col++) {
+            heights[row * resolution + col] = evaluator.getHeight(bounds.minX + col * stepX, z);
+        }
+
+        onProgress(row + 1);
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    return heights;
+}
+
+/**
+ * Normalize heights to the full 16-bit range
+ */
+export function quantizeHeights(heights: Float32Array): { samples: Uint16Array; min: number; max: number } {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const h of heights) {
+        if (h < min) min = h;
+        if (h > max) max = h;
+    }
+    if (!isFinite(min)) {
+        min = max = 0;
+    }
+
+    const span = max - min;
+    const samples = new Uint16Array(heights.length);
+    for (let i = 0; i < heights.length; i++) {
+        samples[i] = span > 0 ? Math.round((heights[i] - min) / span * 65535) : 0;
+    }
+    return { samples, min, max };
+}
+
+/**
+ * Raw .r16: little-endian uint16 per sample, no header
+ */
+export function encodeR16(samples: Uint16Array): Uint8Array {
+    const out = new Uint8Array(samples.length * 2);
+    const view = new DataView(out.buffer);
+    samples.forEach((v, i) => view.setUint16(i * 2, v, true));
+    return out;
+}
+
+/**
+ * 16-bit grayscale PNG (color type 0, bit depth 16, no filtering)
+ */
+export function encodePng16(width: number, height: number, samples: Uint16Array): Uint8Array {
+    // Each scanline: filter byte 0 + big-endian uint16 samples
+    const stride = 1 + width * 2;
+    const raw = Buffer.alloc(stride * height);
+    for (let row = 0; row < height; row++) {
+        const base = row * stride;
+        for (let col = 0; col < width; col++) {
+            raw.writeUInt16BE(samples[row * width + col], base + 1 + col * 2);
+        }
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 16;    // Bit depth
+    header[9] = 0;     // Grayscale
+    header[10] = 0;    // Deflate
+    header[11] = 0;    // Adaptive filtering
+    header[12] = 0;    // No interlace
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', zlib.deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
@@ -0,0 +1,251 @@
+/**
+ * IFF Chunk Tree
+ * Mutable tree of FORMs and data chunks that serializes back to bytes, with
+ * every FORM size recomputed from its children
+ *
+ * Sizes are big-endian uint32 and chunks carry no padding, as in SWG IFF
+ * files. Structural edits parse the file into this tree, change it and
+ * write it out again, so lengths can change anywhere.
+ *
+ * Bytes that do not parse as chunks (padding, garbage, a child overrunning
+ * its FORM) are kept verbatim as raw regions, so untouched files write back
+ * byte for byte.
+ */
+
+export interface IffChunk {
+    kind: 'chunk';
+    tag: string;
+    data: Uint8Array;
+    offset: number;         // Chunk start when parsed, -1 for new chunks
+}
+
+export interface IffForm {
+    kind: 'form';
+    type: string;
+    children: IffNode[];
+    offset: number;
+    trailer?: Uint8Array;   // Bytes after the root FORM's declared end (root only)
+}
+
+/**
+ * Unparsed bytes inside a FORM, written back as-is with no header
+ */
+export interface IffRaw {
+    kind: 'raw';
+    data: Uint8Array;
+    offset: number;
+}
+
+export type IffNode = IffChunk | IffForm | IffRaw;
+
+export interface RoundTripResult {
+    identical: boolean;
+    originalSize: number;
+    rebuiltSize: number;
+    firstDifference: number;    // -1 when identical
+    rawRegions: number;         // Unparsed regions carried through verbatim
+}
+
+export class IffTreeParser {
+    constructor(private readonly data: Uint8Array) {}
+
+    parse(): IffForm {
+        if (this.data.length < 12 || this.readTag(0) !== 'FORM' || this.readUint32BE(4) < 4) {
+            throw new Error('Not a valid IFF file');
+        }
+        const end = 8 + this.readUint32BE(4);
+        if (end > this.data.length) {
+            throw new Error(`File is truncated: root FORM needs ${end} bytes, file has ${this.data.length}`);
+        }
+        const root = this.readNode(0) as IffForm;
+        if (end < this.data.length) {
+            root.trailer = this.data.slice(end);
+        }
+        return root;
+    }
+
+    // The caller has checked that the node's declared size fits its parent
+    private readNode(offset: number): IffNode {
+        const tag = this.readTag(offset);
+        const contentEnd = offset + 8 + this.readUint32BE(offset + 4);
+
+        // A FORM too small for its type is kept as an opaque chunk
+        if (tag !== 'FORM' || contentEnd - offset < 12) {
+            return { kind: 'chunk', tag, data: this.data.slice(offset + 8, contentEnd), offset };
+        }
+
+        const form: IffForm = { kind: 'form', type: this.readTag(offset + 8), children: [], offset };
+        let pos = offset + 12;
+        while (pos < contentEnd) {
+            if (!this.isChunkAt(pos, contentEnd)) {
+                form.children.push({ kind: 'raw', data: this.data.slice(pos, contentEnd), offset: pos });
+                break;
+            }
+            const child = this.readNode(pos);
+            form.children.push(child);
+            pos += nodeSize(child);
+        }
+        return form;
+    }
+
+    // A printable tag and a size that stays inside the parent
+    private isChunkAt(pos: number, end: number): boolean {
+        if (end - pos < 8) return false;
+        for (let i = 0; i < 4; i++) {
+            if (this.data[pos + i] < 0x20 || this.data[pos + i] > 0x7E) return false;
+        }
+        return pos + 8 + this.readUint32BE(pos + 4) <= end;
+    }
+
+    private readTag(offset: number): string {
+        return String.fromCharCode(this.data[offset], this.data[offset + 1], this.data[offset + 2], this.data[offset + 3]);
+    }
+
+    private readUint32BE(offset: number): number {
+        return ((this.data[offset] << 24) |
+                (this.data[offset + 1] << 16) |
+                (this.data[offset + 2] << 8) |
+                this.data[offset + 3]) >>> 0;
+    }
+}
+
+/**
+ * Bytes after the 8-byte tag/size header (for a FORM, includes its type)
+ */
+export function nodeContentSize(node: IffNode): number {
+    if (node.kind !== 'form') return node.data.length;
+    return node.children.reduce((sum, child) => sum + nodeSize(child), 4);
+}
+
+// Total bytes including the header; raw regions have none
+function nodeSize(node: IffNode): number {
+    return node.kind === 'raw' ? node.data.length : 8 + nodeContentSize(node);
+}
+
+export function serializeIff(root: IffForm): Uint8Array {
+    const trailer = root.trailer || new Uint8Array(0);
+    const out = new Uint8Array(nodeSize(root) + trailer.length);
+    out.set(trailer, writeNode(out, 0, root));
+    return out;
+}
+
+// Writes the node at `pos` and returns the position after it
+function writeNode(out: Uint8Array, pos: number, node: IffNode): number {
+    if (node.kind === 'raw') {
+        out.set(node.data, pos);
+        return pos + node.data.length;
+    }
+
+    const size = nodeContentSize(node);
+    writeTag(out, pos, node.kind === 'form' ? 'FORM' : node.tag);
+    new DataView(out.buffer, out.byteOffset).setUint32(pos + 4, size, false);
+    pos += 8;
+
+    if (node.kind === 'chunk') {
+        out.set(node.data, pos);
+        return pos + size;
+    }
+    writeTag(out, pos, node.type);
+    pos += 4;
+    for (const child of node.children) {
+        pos = writeNode(out, pos, child);
+    }
+    return pos;
+}
+
+function writeTag(out: Uint8Array, pos: number, tag: string): void {
+    for (let i = 0; i < 4; i++) {
+        out[pos + i] = tag.charCodeAt(i) & 0xFF;
+    }
+}
+
+export function createForm(type: string, children: IffNode[] = []): IffForm {
+    return { kind: 'form', type, children, offset: -1 };
+}
+
+export function createChunk(tag: string, data: Uint8Array): IffChunk {
+    return { kind: 'chunk', tag, data, offset: -1 };
+}
+
+/**
+ * Find the node that started at `offset` when the tree was parsed, with its
+ * parent FORM (null for the root)
+ */
+export function findNodeAtOffset(root: IffForm, offset: number): { node: IffNode; parent: IffForm | null } | null {
+    if (root.offset === offset) return { node: root, parent: null };
+    for (const child of root.children) {
+        if (child.offset === offset) return { node: child, parent: root };
+        if (child.kind === 'form') {
+            const found = findNodeAtOffset(child, offset);
+            if (found) return found;
+        }
+    }
+    return null;
+}
+
+/**
+ * First direct child with the given chunk tag or FORM type
+ */
+export function findChild(form: IffForm, tagOrType: string): IffNode | undefined {
+    return form.children.find(c => (c.kind === 'form' ? c.type : c.kind === 'chunk' ? c.tag : undefined) === tagOrType);
+}
+
+/**
+ * Deep copy of a node, marked as new (offset -1)
+ */
+export function cloneNode<T extends IffNode>(node: T): T {
+    if (node.kind === 'form') {
+        return { kind: 'form', type: node.type, children: node.children.map(cloneNode), offset: -1 } as T;
+    }
+    return { ...node, data: node.data.slice(), offset: -1 };
+}
+
+/**
+ * Where `target` will start once `root` is serialized, or -1 if it is not in the tree
+ */
+export function serializedOffset(root: IffForm, target: IffNode): number {
+    if (root === target) return 0;
+    let pos = 12;
+    for (const child of root.children) {
+        if (child === target) return pos;
+        if (child.kind === 'form') {
+            const inner = serializedOffset(child, target);
+            if (inner !== -1) return pos + inner;
+        }
+        pos += nodeSize(child);
+    }
+    return -1;
+}
+
+/**
+ * Parse into the chunk tree and write it straight back; an untouched file
+ * must come out identical. Pass `root` to check a tree parsed earlier
+ * against the bytes it came from
+ */
+export function verifyRoundTrip(data: Uint8Array, root: IffForm = new IffTreeParser(data).parse()): RoundTripResult {
+    const rebuilt = serializeIff(root);
+
+    let firstDifference = -1;
+    const common = Math.min(data.length, rebuilt.length);
+    for (let i = 0; i < common; i++) {
+        if (data[i] !== rebuilt[i]) {
+            firstDifference = i;
+            break;
+        }
+    }
+    if (firstDifference === -1 && data.length !== rebuilt.length) {
+        firstDifference = common;
+    }
+
+    return {
+        identical: firstDifference === -1,
+        originalSize: data.length,
+        rebuiltSize: rebuilt.length,
+        firstDifference,
+        rawRegions: countRawRegions(root)
+    };
+}
+
+function countRawRegions(form: IffForm): number {
+    return form.children.reduce((n, c) => n + (c.kind === 'raw' ? 1 : c.kind === 'form' ? countRawRegions(c) : 0), 0);
+}
@@ -0,0 +1,105 @@
+/**
+ * Byte-exact round trips through the IFF chunk tree, and FORM sizes after edits
+ * Run with `npm test` (compiles, then runs node's test runner on out/test)
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { IffChunk, IffForm, IffTreeParser, createChunk, createForm, serializeIff, verifyRoundTrip } from '../iffTree';
+
+// Builds IFF bytes by hand, so sizes and padding are exactly what the test says
+function chunk(tag: string, content: number[]): number[] {
+    const size = content.length;
+    return [...tag].map(c => c.charCodeAt(0)).concat([size >>> 24, (size >>> 16) & 0xFF, (size >>> 8) & 0xFF, size & 0xFF], content);
+}
+
+function form(type: string, ...children: number[][]): number[] {
+    return chunk('FORM', [...type].map(c => c.charCodeAt(0)).concat(...children));
+}
+
+// A small TRN: known chunks, an unknown chunk with an odd size followed by a
+// padding byte, and garbage after the root FORM
+function syntheticTrn(): Uint8Array {
+    const bytes = form('PTAT',
+        form('0015',
+            chunk('DATA', [1, 2, 3, 4]),
+            form('TGEN', chunk('MGRP', [5, 6])),
+            chunk('XYZW', [9, 8, 7]),
+            [0]
+        )
+    );
+    return new Uint8Array(bytes.concat([0xDE, 0xAD, 0xBE, 0xEF]));
+}
+
+function childNames(form: IffForm): string[] {
+    return form.children.map(c => c.kind === 'chunk' ? c.tag : c.kind === 'form' ? c.type : 'raw');
+}
+
+test('an unknown chunk, a padding byte and trailing garbage write back byte for byte', () => {
+    const data = syntheticTrn();
+    const root = new IffTreeParser(data).parse();
+
+    const version = root.children[0] as IffForm;
+    assert.deepEqual(childNames(version), ['DATA', 'TGEN', 'XYZW', 'raw']);
+    assert.deepEqual(root.trailer, new Uint8Array([0xDE, 0xAD, 0xBE, 0xEF]));
+
+    assert.deepEqual(serializeIff(root), data);
+    const result = verifyRoundTrip(data);
+    assert.equal(result.identical, true);
+    assert.equal(result.firstDifference, -1);
+    assert.equal(result.rawRegions, 1);
+});
+
+test('verifyRoundTrip reports where the rebuilt bytes first differ', () => {
+    const data = syntheticTrn();
+    const root = new IffTreeParser(data).parse();
+    const unknown = (root.children[0] as IffForm).children[2] as IffChunk;
+    unknown.data[1] ^= 0xFF;
+
+    const result = verifyRoundTrip(data, root);
+    assert.equal(result.identical, false);
+    assert.equal(result.firstDifference, unknown.offset + 8 + 1);
+    assert.equal(result.rebuiltSize, result.originalSize);
+});
+
+// Walks the bytes of one node and checks each FORM's big-endian size covers
+// exactly its children; returns the position after the node and counts FORMs
+function checkFormSizes(bytes: Uint8Array, pos: number, end: number, forms: string[]): number {
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    const tag = String.fromCharCode(...bytes.slice(pos, pos + 4));
+    const nodeEnd = pos + 8 + view.getUint32(pos + 4, false);
+    assert.ok(nodeEnd <= end, `${tag} at ${pos} overruns its parent`);
+    if (tag === 'FORM') {
+        forms.push(String.fromCharCode(...bytes.slice(pos + 8, pos + 12)));
+        let child = pos + 12;
+        while (child < nodeEnd) child = checkFormSizes(bytes, child, nodeEnd, forms);
+        assert.equal(child, nodeEnd, `children of FORM at ${pos} don't fill its size`);
+    }
+    return nodeEnd;
+}
+
+test('FORM sizes are recomputed after children are added and removed', () => {
+    // Without the padding byte and trailer, every byte belongs to a chunk
+    const root = new IffTreeParser(syntheticTrn()).parse();
+    delete root.trailer;
+    (root.children[0] as IffForm).children.pop();
+    const version = root.children[0] as IffForm;
+    const tgen = version.children[1] as IffForm;
+
+    // Grow the nested FORM, then drop a chunk from its parent
+    tgen.children.push(createForm('SFAM', [createChunk('DATA', new Uint8Array(13))]), createChunk('NAME', new Uint8Array([0x41, 0])));
+    version.children.splice(0, 1);
+
+    const bytes = serializeIff(root);
+    const forms: string[] = [];
+    assert.equal(checkFormSizes(bytes, 0, bytes.length, forms), bytes.length);
+    assert.deepEqual(forms, ['PTAT', '0015', 'TGEN', 'SFAM']);
+
+    const reparsed = new IffTreeParser(bytes).parse();
+    const reparsedVersion = reparsed.children[0] as IffForm;
+    const reparsedTgen = reparsedVersion.children[0] as IffForm;
+    assert.deepEqual(childNames(reparsedVersion), ['TGEN', 'XYZW']);
+    assert.deepEqual(childNames(reparsedTgen), ['MGRP', 'SFAM', 'NAME']);
+    assert.equal(((reparsedTgen.children[1] as IffForm).children[0] as IffChunk).data.length, 13);
+    assert.deepEqual(serializeIff(reparsed), bytes);
+});
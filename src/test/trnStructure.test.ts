@@ -0,0 +1,100 @@
+/**
+ * Pasting layers and boundaries with a coordinate offset
+ * Run with `npm test` (compiles, then runs node's test runner on out/test)
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { IffForm, createChunk, createForm } from '../iffTree';
+import { AffectorRiver, AffectorRoad, decodeAffector } from '../trnAffectors';
+import { decodeClipboard, encodeClipboard } from '../trnClipboard';
+import { createBoundaryForm, createItemHeader, createLayerForm, defaultBoundary, findItemPayload, insertCopies, layerContents } from '../trnStructure';
+
+function payload(write: (view: DataView) => number): Uint8Array {
+    const bytes = new Uint8Array(256);
+    return bytes.slice(0, write(new DataView(bytes.buffer)));
+}
+
+function pointList(view: DataView, points: [number, number][]): number {
+    view.setUint32(0, points.length, true);
+    points.forEach(([x, z], i) => {
+        view.setFloat32(4 + i * 8, x, true);
+        view.setFloat32(8 + i * 8, z, true);
+    });
+    return 4 + points.length * 8;
+}
+
+// Road payload as a DATA chunk: points, width, shader family, feather type, feather amount
+function roadForm(points: [number, number][]): IffForm {
+    const data = payload(view => {
+        const pos = pointList(view, points);
+        view.setFloat32(pos, 8, true);
+        view.setInt32(pos + 4, 3, true);
+        view.setInt32(pos + 8, 1, true);
+        view.setFloat32(pos + 12, 0.5, true);
+        return pos + 16;
+    });
+    return createForm('AROD', [createForm('0005', [createItemHeader('Main Road'), createChunk('DATA', data)])]);
+}
+
+// River payload in the FORM DATA > PARM layout, cut after the width
+function riverForm(points: [number, number][]): IffForm {
+    const data = payload(view => {
+        const pos = pointList(view, points);
+        view.setFloat32(pos, 12, true);
+        return pos + 4;
+    });
+    return createForm('ARIV', [createForm('0004', [createItemHeader('River'), createForm('DATA', [createChunk('PARM', data)])])]);
+}
+
+function cityLayer(): IffForm {
+    const layer = createLayerForm('City');
+    layerContents(layer)!.children.push(
+        createBoundaryForm(defaultBoundary('circle', 100, 200, 50)),
+        roadForm([[100, 200], [300, 400]]),
+        riverForm([[-50, 25]])
+    );
+    return layer;
+}
+
+function decodeItem<T>(item: IffForm): T {
+    const data = findItemPayload(item)!.data;
+    return decodeAffector(item.type, item.children[0].kind === 'form' ? item.children[0].type : '', data, 0, data.length) as T;
+}
+
+function itemOf(layer: IffForm, type: string): IffForm {
+    return layerContents(layer)!.children.find(c => c.kind === 'form' && c.type === type) as IffForm;
+}
+
+test('pasting a layer with an offset moves its boundaries, roads and rivers', () => {
+    const forms = decodeClipboard(encodeClipboard([cityLayer()]));
+    assert.ok(forms);
+
+    const lyrs = createForm('LYRS');
+    const pasted = insertCopies(lyrs, forms, 1000, -500);
+    assert.ok(pasted);
+    assert.equal(lyrs.children.length, 1);
+    const layer = lyrs.children[0] as IffForm;
+
+    const circle = findItemPayload(itemOf(layer, 'BCIR'))!;
+    const view = new DataView(circle.data.buffer, circle.data.byteOffset);
+    assert.deepEqual([view.getFloat32(0, true), view.getFloat32(4, true), view.getFloat32(8, true)], [1100, -300, 25]);
+
+    const road = decodeItem<AffectorRoad>(itemOf(layer, 'AROD'));
+    assert.deepEqual(road.points, [{ x: 1100, z: -300 }, { x: 1300, z: -100 }]);
+    assert.equal(road.width, 8);
+    assert.equal(road.featherType, 1);
+
+    const river = decodeItem<AffectorRiver>(itemOf(layer, 'ARIV'));
+    assert.deepEqual(river.points, [{ x: 950, z: -475 }]);
+    assert.equal(river.width, 12);
+
+    // The clipboard copy stays as it was, so it can be pasted again
+    assert.deepEqual(decodeItem<AffectorRoad>(itemOf(forms[0], 'AROD')).points, [{ x: 100, z: 200 }, { x: 300, z: 400 }]);
+});
+
+test('boundaries are not pasted directly into LYRS', () => {
+    const lyrs = createForm('LYRS');
+    assert.equal(insertCopies(lyrs, [createBoundaryForm(defaultBoundary('circle', 0, 0, 10))], 0, 0), null);
+    assert.equal(lyrs.children.length, 0);
+});
@@ -0,0 +1,212 @@
+/**
+ * TRN Affector Decoder
+ * Turns the versioned DATA payload of affector FORMs (AHCN, AHFR, ASCN, ...)
+ * into typed parameter objects
+ *
+ * Layout per affector: FORM <tag> > FORM <version> > FORM IHDR + payload,
+ * where the payload is either a DATA chunk or FORM DATA > PARM/DATA.
+ */
+
+import { ChunkReader } from './chunkReader';
+import { Point2D } from './trnParser';
+
+// Height operations used by AHCN/AHFR (and color operations by ACCN/ACRF)
+export const HEIGHT_OPERATION_NAMES = ['Add', 'Subtract', 'Multiply', 'Replace'];
+
+interface AffectorBase {
+    version: string;
+    truncated?: boolean;    // Payload was shorter than the decoder expected
+}
+
+export interface AffectorHeightConstant extends AffectorBase {
+    tag: 'AHCN';
+    operation: number;
+    height: number;
+}
+
+export interface AffectorHeightFractal extends AffectorBase {
+    tag: 'AHFR';
+    fractalFamilyId: number;
+    operation: number;
+    height: number;
+}
+
+export interface AffectorHeightTerrace extends AffectorBase {
+    tag: 'AHTR';
+    flatRatio: number;
+    height: number;
+}
+
+export interface AffectorColorConstant extends AffectorBase {
+    tag: 'ACCN';
+    operation: number;
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface AffectorColorRampFractal extends AffectorBase {
+    tag: 'ACRF';
+    fractalFamilyId: number;
+    operation: number;
+    rampName: string;
+}
+
+export interface AffectorShaderConstant extends AffectorBase {
+    tag: 'ASCN';
+    shaderFamilyId: number;
+    useFeatherClampOverride: boolean;
+    featherClampOverride: number;
+}
+
+export interface AffectorFlora extends AffectorBase {
+    tag: 'AFSC' | 'AFSN' | 'AFDN' | 'AFDF';
+    familyId: number;           // Flora family (AFSC/AFSN) or radial family (AFDN/AFDF)
+    operation: number;
+    removeAll: boolean;
+    densityOverride: boolean;
+    densityOverrideDensity: number;
+}
+
+export interface AffectorEnvironment extends AffectorBase {
+    tag: 'AENV';
+    environmentFamilyId: number;
+    useFeatherClampOverride: boolean;
+    featherClampOverride: number;
+}
+
+export interface AffectorExclude extends AffectorBase {
+    tag: 'AEXC';
+}
+
+export interface AffectorRoad extends AffectorBase {
+    tag: 'AROD';
+    points: Point2D[];
+    width: number;
+    shaderFamilyId: number;
+    featherType: number;
+    featherAmount: number;
+}
+
+export interface AffectorRiver extends AffectorBase {
+    tag: 'ARIV';
+    points: Point2D[];
+    width: number;
+    bottomShaderFamilyId: number;
+    trenchDepth: number;
+    velocity: number;
+    featherType: number;
+    featherAmount: number;
+    hasLocalWaterTable: boolean;
+    localWaterTableDepth: number;
+    localWaterTableShaderSize: number;
+    localWaterTableShaderName: string;
+}
+
+export type AffectorData =
+    AffectorHeightConstant | AffectorHeightFractal | AffectorHeightTerrace |
+    AffectorColorConstant | AffectorColorRampFractal | AffectorShaderConstant |
+    AffectorFlora | AffectorEnvironment | AffectorExclude | AffectorRoad | AffectorRiver;
+
+export const AFFECTOR_TAGS = [
+    'AHCN', 'AHFR', 'AHTR', 'ACCN', 'ACRF', 'ASCN',
+    'AFSC', 'AFSN', 'AFDN', 'AFDF', 'AENV', 'AEXC', 'AROD', 'ARIV'
+];
+
+export function isAffectorTag(tag: string): boolean {
+    return AFFECTOR_TAGS.includes(tag);
+}
+
+/**
+ * Decode an affector payload
+ * `start`/`size` describe the payload chunk content (after tag + size)
+ */
+export function decodeAffector(tag: string, version: string, data: Uint8Array, start: number, size: number): AffectorData | null {
+    const r = new ChunkReader(data, start, size);
+    let affector: AffectorData;
+
+    switch (tag) {
+        case 'AHCN':
+            affector = { tag, version, operation: r.readInt32(), height: r.readFloat32() };
+            break;
+        case 'AHFR':
+            affector = { tag, version, fractalFamilyId: r.readInt32(), operation: r.readInt32(), height: r.readFloat32() };
+            break;
+        case 'AHTR':
+            affector = { tag, version, flatRatio: r.readFloat32(), height: r.readFloat32() };
+            break;
+        case 'ACCN':
+            affector = { tag, version, operation: r.readInt32(), r: r.readUint8(), g: r.readUint8(), b: r.readUint8() };
+            break;
+        case 'ACRF':
+            affector = { tag, version, fractalFamilyId: r.readInt32(), operation: r.readInt32(), rampName: r.readString() };
+            break;
+        case 'ASCN':
+            affector = { tag, version, shaderFamilyId: r.readInt32(), useFeatherClampOverride: r.readBool(), featherClampOverride: r.readFloat32() };
+            break;
+        case 'AFSC':
+        case 'AFSN':
+        case 'AFDN':
+        case 'AFDF':
+            affector = {
+                tag, version,
+                familyId: r.readInt32(),
+                operation: r.readInt32(),
+                removeAll: r.readBool(),
+                densityOverride: r.readBool(),
+                densityOverrideDensity: r.readFloat32()
+            };
+            break;
+        case 'AENV':
+            affector = { tag, version, environmentFamilyId: r.readInt32(), useFeatherClampOverride: r.readBool(), featherClampOverride: r.readFloat32() };
+            break;
+        case 'AEXC':
+            affector = { tag, version };
+            break;
+        case 'AROD': {
+            const points = readPoints(r);
+            affector = {
+                tag, version, points,
+                width: r.readFloat32(),
+                shaderFamilyId: r.readInt32(),
+                featherType: r.readInt32(),
+                featherAmount: r.readFloat32()
+            };
+            break;
+        }
+        case 'ARIV': {
+            const points = readPoints(r);
+            affector = {
+                tag, version, points,
+                width: r.readFloat32(),
+                bottomShaderFamilyId: r.readInt32(),
+                trenchDepth: r.readFloat32(),
+                velocity: r.readFloat32(),
+                featherType: r.readInt32(),
+                featherAmount: r.readFloat32(),
+                hasLocalWaterTable: r.readBool(),
+                localWaterTableDepth: r.readFloat32(),
+                localWaterTableShaderSize: r.readFloat32(),
+                localWaterTableShaderName: r.readString()
+            };
+            break;
+        }
+        default:
+            return null;
+    }
+
+    if (r.overrun) {
+        affector.truncated = true;
+    }
+    return affector;
+}
+
+function readPoints(r: ChunkReader): Point2D[] {
+    const count = r.readUint32();
+    const points: Point2D[] = [];
+    // Guard against garbage counts in damaged files
+    for (let i = 0; i < count && r.remaining >= 8; i++) {
+        points.push({ x: r.readFloat32(), z: r.readFloat32() });
+    }
+    return points;
+}
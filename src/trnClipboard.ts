@@ -0,0 +1,56 @@
+/**
+ * TRN Clipboard
+ * Encodes boundaries and whole layers (with their affectors, filters and
+ * sub-layers) as clipboard text, so they can be pasted into another TRN
+ *
+ * Each item is its FORM written out as IFF bytes and stored as base64 in a
+ * small JSON envelope. Going through the system clipboard lets items move
+ * between editors and VS Code windows.
+ */
+
+import { IffForm, IffTreeParser, serializeIff } from './iffTree';
+
+const CLIPBOARD_FORMAT = 'swg-trn-items';
+const CLIPBOARD_VERSION = 1;
+
+interface ClipboardEnvelope {
+    format: string;
+    version: number;
+    items: { type: string; data: string }[];
+}
+
+export function encodeClipboard(forms: IffForm[]): string {
+    const envelope: ClipboardEnvelope = {
+        format: CLIPBOARD_FORMAT,
+        version: CLIPBOARD_VERSION,
+        items: forms.map(form => ({ type: form.type, data: Buffer.from(serializeIff(form)).toString('base64') }))
+    };
+    return JSON.stringify(envelope);
+}
+
+/**
+ * The FORMs in clipboard text, or null if it holds no TRN items
+ */
+export function decodeClipboard(text: string): IffForm[] | null {
+    let envelope: ClipboardEnvelope;
+    try {
+        envelope = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (!envelope || envelope.format !== CLIPBOARD_FORMAT || envelope.version !== CLIPBOARD_VERSION || !Array.isArray(envelope.items)) {
+        return null;
+    }
+
+    const forms: IffForm[] = [];
+    for (const item of envelope.items) {
+        try {
+            const form = new IffTreeParser(new Uint8Array(Buffer.from(String(item.data), 'base64'))).parse();
+            if (form.type !== item.type || form.trailer) return null;
+            forms.push(form);
+        } catch {
+            return null;
+        }
+    }
+    return forms.length > 0 ? forms : null;
+}
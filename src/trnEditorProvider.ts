@@ -1,9 +1,19 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TRNParser, Boundary, findBoundariesAtPoint, MapInfo } from './trnParser';
-import { validateTRN, ValidationResult } from './trnValidator';
+import { TRNParser, Boundary, Point2D, findBoundariesAtPoint, getBoundaryWeight, MapInfo, MAP_INFO_LAYOUT, FEATHER_TYPE_NAMES } from './trnParser';
+import { validateTRN, ValidationResult, checkMapInfoValue, checkItemName, MAX_ITEM_NAME_LENGTH } from './trnValidator';
 import { TRNTreeParser, TRNTree, TRNNode, searchTree, markTreeErrors, getLayerHierarchy, getBoundariesInLayer, LayerInfo } from './trnTree';
 import { WSParser, WSDocument, WSObject, quaternionToYaw } from './wsParser';
+import { HEIGHT_OPERATION_NAMES } from './trnAffectors';
+import { TRNFamilies } from './trnFamilies';
+import { COMBINATION_RULE_NAMES, renderFractalTile } from './trnFractals';
+import { TerrainHeightEvaluator, buildHeightLayers } from './trnHeight';
+import { FLORA_CATEGORIES, scatterFlora } from './floraPreview';
+import { sampleHeightProfile } from './heightProfile';
+import { IffChunk, IffForm, IffTreeParser, cloneNode, findNodeAtOffset, serializeIff, serializedOffset, verifyRoundTrip } from './iffTree';
+import { BOUNDARY_TAGS, boundaryInsertIndex, createBoundaryForm, createLayerForm, defaultBoundary, findItemHeader, insertCopies, layerContents } from './trnStructure';
+import { decodeClipboard, encodeClipboard } from './trnClipboard';
+import { HEIGHTMAP_RESOLUTIONS, HeightmapSidecar, encodePng16, encodeR16, quantizeHeights, sampleHeightmap } from './heightmapExport';
 
 /**
  * Edit types for tracking changes
@@ -24,19 +34,33 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
     private static readonly ROTATION_OFFSETS_FILE = 'ws-rotation-offsets.json';
 
     public static register(context: vscode.ExtensionContext): vscode.Disposable {
-        return vscode.window.registerCustomEditorProvider(
-            TRNEditorProvider.viewType,
-            new TRNEditorProvider(context),
-            {
-                webviewOptions: { retainContextWhenHidden: true },
-                supportsMultipleEditorsPerDocument: false
-            }
+        const provider = new TRNEditorProvider(context);
+        return vscode.Disposable.from(
+            vscode.window.registerCustomEditorProvider(
+                TRNEditorProvider.viewType,
+                provider,
+                {
+                    webviewOptions: { retainContextWhenHidden: true },
+                    supportsMultipleEditorsPerDocument: false
+                }
+            ),
+            vscode.commands.registerCommand('swgemu.trnViewer.exportHeightmap', (uri?: vscode.Uri) => provider.exportHeightmap(uri)),
+            vscode.commands.registerCommand('swgemu.trnViewer.verifyRoundTrip', () => provider.verifyWorkspaceRoundTrip())
         );
     }
 
     private readonly _onDidChangeCustomDocument = new vscode.EventEmitter<vscode.CustomDocumentEditEvent<TRNDocument>>();
     public readonly onDidChangeCustomDocument = this._onDidChangeCustomDocument.event;
 
+    // Open editors by document URI, so commands see unsaved edits
+    private readonly openEditors = new Map<string, { document: TRNDocument; panel: vscode.WebviewPanel }>();
+
+    private roundTripOutput: vscode.OutputChannel | null = null;
+
+    // Overlay tiles waiting to be computed, one per event loop turn for all editors
+    private readonly overlayWork: (() => void)[] = [];
+    private overlayWorkScheduled = false;
+
     constructor(private readonly context: vscode.ExtensionContext) {}
 
     private async getRotationOffsetsPath(): Promise<vscode.Uri | null> {
@@ -216,6 +240,10 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
 
         webviewPanel.webview.html = this.getHtmlContent(webviewPanel.webview, document);
 
+        const editorKey = document.uri.toString();
+        this.openEditors.set(editorKey, { document, panel: webviewPanel });
+        webviewPanel.onDidDispose(() => this.openEditors.delete(editorKey));
+
         // Handle messages from webview
         webviewPanel.webview.onDidReceiveMessage(message => {
             switch (message.type) {
@@ -223,10 +251,17 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                     const x = parseFloat(message.x);
                     const z = parseFloat(message.z);
                     const results = findBoundariesAtPoint(x, z, document.boundaries);
+                    const sample = document.heightEvaluator.sample(x, z);
                     webviewPanel.webview.postMessage({
                         type: 'queryResults',
+                        source: message.source,
                         x, z,
-                        boundaries: results
+                        boundaries: results,
+                        weights: results.map(b => getBoundaryWeight(b, x, z)),
+                        height: sample.height,
+                        shader: sample.shader,
+                        environment: sample.environment,
+                        trace: message.trace ? document.heightEvaluator.explain(x, z) : undefined
                     });
                     break;
 
@@ -242,6 +277,82 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                     this.handleBoundaryEdit(document, message, webviewPanel);
                     break;
 
+                case 'editMapInfo':
+                    this.handleMapInfoEdit(document, message, webviewPanel);
+                    break;
+
+                case 'editVertex':
+                    this.handleVertexEdit(document, message, webviewPanel);
+                    break;
+
+                case 'transformBoundary':
+                    this.handleTransform(document, message, webviewPanel);
+                    break;
+
+                case 'renameItem':
+                    this.handleRename(document, message, webviewPanel);
+                    break;
+
+                case 'addBoundary':
+                case 'duplicateItem':
+                case 'deleteItem':
+                    this.handleItemEdit(document, message, webviewPanel);
+                    break;
+
+                case 'moveToLayer':
+                    this.handleMoveToLayer(document, message, webviewPanel).catch(this.reportFailure('Move to layer'));
+                    break;
+
+                case 'copyItems':
+                    this.handleCopy(document, message).catch(this.reportFailure('Copy'));
+                    break;
+
+                case 'pasteItems':
+                    this.handlePaste(document, message, webviewPanel).catch(this.reportFailure('Paste'));
+                    break;
+
+                case 'addLayer':
+                case 'deleteLayer':
+                case 'moveItem':
+                    this.handleLayerEdit(document, message, webviewPanel).catch(this.reportFailure('Layer edit'));
+                    break;
+
+                case 'requestFractalPreview':
+                    // Noise is computed here so the webview only has to paint pixels
+                    const tile = renderFractalTile(
+                        message.settings,
+                        Number(message.centerX) || 0,
+                        Number(message.centerZ) || 0,
+                        Math.max(1, Number(message.extent) || 1),
+                        Math.max(16, Math.min(512, Math.floor(Number(message.size) || 256)))
+                    );
+                    webviewPanel.webview.postMessage({
+                        type: 'fractalPreview',
+                        requestId: message.requestId,
+                        tile
+                    });
+                    break;
+
+                case 'requestOverlayTile':
+                    this.queueOverlayWork(() => this.handleOverlayTileRequest(document, message, webviewPanel));
+                    break;
+
+                case 'requestEnvironmentCoverage':
+                    this.handleEnvironmentCoverageRequest(document, webviewPanel);
+                    break;
+
+                case 'requestHeightProfile':
+                    const profilePoints = (message.points || [])
+                        .map((p: any) => ({ x: Number(p.x), z: Number(p.z) }))
+                        .filter((p: { x: number; z: number }) => isFinite(p.x) && isFinite(p.z));
+                    if (profilePoints.length < 2) break;
+                    webviewPanel.webview.postMessage({
+                        type: 'heightProfile',
+                        requestId: message.requestId,
+                        profile: sampleHeightProfile(document.heightEvaluator, document.boundaries, profilePoints, Number(message.samples) || 512)
+                    });
+                    break;
+
                 case 'requestTree':
                     // Lazy load tree data when Tree View tab is clicked
                     webviewPanel.webview.postMessage({
@@ -275,11 +386,19 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         });
 
         // Listen for document changes to update webview
-        document.onDidChange(() => {
-            webviewPanel.webview.postMessage({
-                type: 'documentChanged',
-                boundaries: document.boundaries
-            });
+        document.onDidChange(() => this.postDocumentState(document, webviewPanel));
+    }
+
+    private postDocumentState(document: TRNDocument, webviewPanel: vscode.WebviewPanel): void {
+        const layerState = this.getLayerState(document);
+        webviewPanel.webview.postMessage({
+            type: 'documentChanged',
+            boundaries: document.boundaries,
+            mapInfo: document.mapInfo,
+            // Bumped when bytes were inserted or removed, so offsets moved
+            structureVersion: document.structureVersion,
+            layers: layerState.layers,
+            boundaryLayerMap: layerState.boundaryLayerMap
         });
     }
 
@@ -292,6 +411,11 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         const newValue = parseFloat(value);
 
         if (isNaN(newValue) || oldValue === newValue) return;
+        if (field === 'featherType' && !(Number.isInteger(newValue) && newValue >= 0 && newValue < FEATHER_TYPE_NAMES.length)) {
+            vscode.window.showErrorMessage(`Invalid feather type: ${value}`);
+            this.postDocumentState(document, webviewPanel);
+            return;
+        }
 
         // Apply the edit
         const edit = document.applyEdit(boundaryIndex, field, newValue);
@@ -301,17 +425,11 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 document,
                 undo: async () => {
                     document.applyEdit(boundaryIndex, field, oldValue);
-                    webviewPanel.webview.postMessage({
-                        type: 'documentChanged',
-                        boundaries: document.boundaries
-                    });
+                    this.postDocumentState(document, webviewPanel);
                 },
                 redo: async () => {
                     document.applyEdit(boundaryIndex, field, newValue);
-                    webviewPanel.webview.postMessage({
-                        type: 'documentChanged',
-                        boundaries: document.boundaries
-                    });
+                    this.postDocumentState(document, webviewPanel);
                 }
             });
 
@@ -325,15 +443,668 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         }
     }
 
-    private getHtmlContent(webview: vscode.Webview, document: TRNDocument): string {
-        const boundaries = document.boundaries;
-        const boundariesJson = JSON.stringify(boundaries);
+    private handleVertexEdit(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): void {
+        const boundaryIndex = Number(message.boundaryIndex);
+        const boundary = document.boundaries[boundaryIndex];
+        if (!boundary || (boundary.type !== 'polygon' && boundary.type !== 'polyline')) return;
+
+        const oldVertices = boundary.vertices.map(v => ({ x: v.x, z: v.z }));
+        const edited = this.editVertexList(boundary.type, oldVertices, message);
+        if (!edited) return;
+        if ('error' in edited) {
+            vscode.window.showErrorMessage(`Cannot edit vertex: ${edited.error}`);
+            this.postDocumentState(document, webviewPanel);
+            return;
+        }
 
-        // Only pass the root node, not the full tree with boundaries/layers arrays
-        // This avoids massive duplication since boundaries/layers reference nodes in root
-        const treeJson = JSON.stringify({ root: document.tree.root });
+        const newVertices = edited.vertices;
+        let applied: boolean;
+        try {
+            applied = document.applyVertexEdit(boundaryIndex, newVertices);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to edit vertex: ${e.message}`);
+            return;
+        }
+        if (applied) {
+            this._onDidChangeCustomDocument.fire({
+                document,
+                label: edited.label,
+                undo: async () => { document.applyVertexEdit(boundaryIndex, oldVertices); },
+                redo: async () => { document.applyVertexEdit(boundaryIndex, newVertices); }
+            });
+        }
+    }
+
+    /**
+     * A boundary dragged or resized on the map, as one undoable edit: new
+     * circle/rectangle fields, or the whole (same-length) vertex list
+     */
+    private handleTransform(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): void {
+        const boundaryIndex = Number(message.boundaryIndex);
+        const boundary = document.boundaries[boundaryIndex];
+        if (!boundary) return;
+        const label = `${message.op === 'resize' ? 'Resize' : 'Move'} ${boundary.name}`;
+
+        if (boundary.type === 'polygon' || boundary.type === 'polyline') {
+            const oldVertices = boundary.vertices.map(v => ({ x: v.x, z: v.z }));
+            const newVertices: Point2D[] = (Array.isArray(message.vertices) ? message.vertices : [])
+                .map((v: any) => ({ x: Math.fround(Number(v && v.x)), z: Math.fround(Number(v && v.z)) }));
+            const valid = newVertices.length === oldVertices.length && newVertices.every(v => isFinite(v.x) && isFinite(v.z));
+            const changed = newVertices.some((v, i) => v.x !== oldVertices[i].x || v.z !== oldVertices[i].z);
+            if (!valid || !changed || !document.applyVertexEdit(boundaryIndex, newVertices)) {
+                this.postDocumentState(document, webviewPanel);
+                return;
+            }
+            this._onDidChangeCustomDocument.fire({
+                document,
+                label,
+                undo: async () => { document.applyVertexEdit(boundaryIndex, oldVertices); },
+                redo: async () => { document.applyVertexEdit(boundaryIndex, newVertices); }
+            });
+            return;
+        }
+
+        const fields = boundary.type === 'circle' ? ['centerX', 'centerZ', 'radius'] : ['x1', 'z1', 'x2', 'z2'];
+        const values = message.values || {};
+        const oldValues: Record<string, number> = {};
+        const newValues: Record<string, number> = {};
+        const result: Record<string, number> = {};
+        for (const field of fields) {
+            const old = (boundary as any)[field] as number;
+            const value = values[field] === undefined ? old : Math.fround(Number(values[field]));
+            result[field] = value;
+            if (value !== old) {
+                oldValues[field] = old;
+                newValues[field] = value;
+            }
+        }
+        const valid = Object.values(result).every(isFinite) &&
+            (boundary.type === 'circle' ? result.radius >= 0 : result.x1 <= result.x2 && result.z1 <= result.z2);
+        if (!valid || Object.keys(newValues).length === 0 || !document.applyEdits(boundaryIndex, newValues)) {
+            this.postDocumentState(document, webviewPanel);
+            return;
+        }
+        this._onDidChangeCustomDocument.fire({
+            document,
+            label,
+            undo: async () => { document.applyEdits(boundaryIndex, oldValues); },
+            redo: async () => { document.applyEdits(boundaryIndex, newValues); }
+        });
+    }
+
+    /**
+     * Apply a move/insert/delete from the webview to a copy of the vertex list
+     * Insert puts the new vertex at `vertexIndex`, shifting the rest along
+     * Returns null when the list would not change
+     */
+    private editVertexList(type: 'polygon' | 'polyline', vertices: Point2D[], message: any): { vertices: Point2D[]; label: string } | { error: string } | null {
+        const index = Number(message.vertexIndex);
+        const point = { x: Math.fround(Number(message.x)), z: Math.fround(Number(message.z)) };
+        const minVertices = type === 'polygon' ? 3 : 2;
+        const result = vertices.slice();
+
+        switch (message.op) {
+            case 'move':
+                if (!Number.isInteger(index) || index < 0 || index >= vertices.length) return { error: `no vertex #${index + 1}` };
+                if (!isFinite(point.x) || !isFinite(point.z)) return { error: 'coordinates must be numbers' };
+                if (point.x === vertices[index].x && point.z === vertices[index].z) return null;
+                result[index] = point;
+                return { vertices: result, label: 'Move vertex' };
+            case 'insert':
+                if (!Number.isInteger(index) || index < 0 || index > vertices.length) return { error: `cannot insert at #${index + 1}` };
+                if (!isFinite(point.x) || !isFinite(point.z)) return { error: 'coordinates must be numbers' };
+                result.splice(index, 0, point);
+                return { vertices: result, label: 'Insert vertex' };
+            case 'delete':
+                if (!Number.isInteger(index) || index < 0 || index >= vertices.length) return { error: `no vertex #${index + 1}` };
+                if (vertices.length <= minVertices) return { error: `a ${type} needs at least ${minVertices} vertices` };
+                result.splice(index, 1);
+                return { vertices: result, label: 'Delete vertex' };
+        }
+        return { error: `unknown operation ${message.op}` };
+    }
+
+    private handleMapInfoEdit(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): void {
+        const field = message.field as keyof MapInfo;
+        const parsed = this.parseMapInfoValue(document.mapInfo, field, message.value);
+        if ('error' in parsed) {
+            vscode.window.showErrorMessage(`Invalid ${field}: ${parsed.error}`);
+            // Put the rejected input back to the stored value
+            this.postDocumentState(document, webviewPanel);
+            return;
+        }
+
+        const oldValue = document.mapInfo[field];
+        const newValue = parsed.value;
+        if (oldValue === newValue) return;
+
+        let applied: boolean;
+        try {
+            applied = document.applyMapInfoEdit(field, newValue);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to edit ${field}: ${e.message}`);
+            return;
+        }
+        if (applied) {
+            this._onDidChangeCustomDocument.fire({
+                document,
+                label: `Edit ${field}`,
+                undo: async () => { document.applyMapInfoEdit(field, oldValue); },
+                redo: async () => { document.applyMapInfoEdit(field, newValue); }
+            });
+        }
+    }
+
+    private handleRename(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): void {
+        const name = String(message.name ?? '').trim();
+        const error = checkItemName(name);
+        if (error) {
+            vscode.window.showErrorMessage(`Invalid name: ${error}`);
+            this.postDocumentState(document, webviewPanel);
+            return;
+        }
+
+        this.applyUndoableStructuralEdit(document, `Rename to ${name}`, () => document.renameItem(Number(message.offset), name));
+    }
+
+    private handleItemEdit(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): void {
+        const offset = Number(message.offset);
+        const boundary = document.boundaries.find(b => b.offset === offset);
+        const itemName = boundary ? boundary.name : 'item';
+        let newOffset = -1;
+
+        switch (message.type) {
+            case 'addBoundary': {
+                const type = message.boundaryType as Boundary['type'];
+                if (!['circle', 'rectangle', 'polygon', 'polyline'].includes(type)) return;
+                const added = defaultBoundary(type, Number(message.x) || 0, Number(message.z) || 0, Math.max(1, Number(message.size) || 100));
+                this.applyUndoableStructuralEdit(document, `Add ${type}`, () => (newOffset = document.addBoundary(Number(message.layerOffset), added)) !== -1);
+                break;
+            }
+            case 'duplicateItem':
+                this.applyUndoableStructuralEdit(document, `Duplicate ${itemName}`, () => (newOffset = document.duplicateItem(offset)) !== -1);
+                break;
+            case 'deleteItem':
+                this.applyUndoableStructuralEdit(document, `Delete ${itemName}`, () => document.deleteItem(offset));
+                break;
+        }
+
+        // Show the new boundary in the property panel
+        if (newOffset !== -1) {
+            webviewPanel.webview.postMessage({ type: 'selectBoundary', offset: newOffset });
+        }
+    }
+
+    private async handleLayerEdit(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        const offset = Number(message.offset);
+        const layer = this.getLayerState(document).layers.find(l => l.offset === offset);
+        const layerName = layer ? layer.name : 'layer';
+
+        switch (message.type) {
+            case 'addLayer':
+                this.applyUndoableStructuralEdit(document, 'Add layer', () => document.addLayer(Number(message.parentOffset), 'New Layer') !== -1);
+                break;
+            case 'deleteLayer': {
+                const choice = await vscode.window.showWarningMessage(
+                    `Delete layer "${layerName}" and everything in it?`, { modal: true }, 'Delete');
+                if (choice !== 'Delete') return;
+                this.applyUndoableStructuralEdit(document, `Delete ${layerName}`, () => document.deleteItem(offset));
+                break;
+            }
+            case 'moveItem': {
+                const position = message.position;
+                if (!['before', 'after', 'inside'].includes(position)) return;
+                const moved = this.applyUndoableStructuralEdit(document, `Move ${layerName}`,
+                    () => document.moveItem(offset, Number(message.targetOffset), position) !== -1);
+                if (!moved) {
+                    vscode.window.showErrorMessage(`Cannot move ${layerName} there`);
+                    this.postDocumentState(document, webviewPanel);
+                }
+                break;
+            }
+        }
+    }
+
+    // Ask which layer (and, for a whole layer's boundaries, which of them) and move them in one edit
+    private async handleMoveToLayer(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        const offsets = (Array.isArray(message.offsets) ? message.offsets : []).map(Number);
+        let chosen = document.boundaries.filter(b => offsets.includes(b.offset));
+        if (message.choose) chosen = await this.pickBoundaries(chosen, 'Boundaries to move');
+        if (chosen.length === 0) return;
+
+        const { layers, boundaryLayerMap } = this.getLayerState(document);
+        const paths: string[] = [];
+        const targets = layers.map(layer => {
+            paths.length = layer.depth;
+            paths.push(layer.name);
+            return { label: layer.name, description: paths.join(' / '), layer };
+        }).filter(t => chosen.some(b => boundaryLayerMap[b.offset] !== t.layer.id));
+        if (targets.length === 0) return;
+
+        const target = await vscode.window.showQuickPick(targets, {
+            placeHolder: chosen.length === 1 ? `Move ${chosen[0].name} to layer` : `Move ${chosen.length} boundaries to layer`
+        });
+        if (!target) return;
+
+        const what = chosen.length === 1 ? chosen[0].name : `${chosen.length} boundaries`;
+        let newOffsets: number[] | null = null;
+        this.applyUndoableStructuralEdit(document, `Move ${what} to ${target.layer.name}`,
+            () => (newOffsets = document.moveBoundaries(chosen.map(b => b.offset), target.layer.offset)) !== null);
 
-        // Get layer hierarchy for layer filtering - but simplify for webview
+        // Keep the moved boundary in the property panel
+        if (newOffsets && chosen.length === 1) {
+            webviewPanel.webview.postMessage({ type: 'selectBoundary', offset: newOffsets[0] });
+        }
+    }
+
+    // Boundaries or whole layers go to the system clipboard, so any open TRN can paste them
+    private async handleCopy(document: TRNDocument, message: any): Promise<void> {
+        let offsets: number[] = (Array.isArray(message.offsets) ? message.offsets : []).map(Number);
+        if (message.choose) {
+            const chosen = await this.pickBoundaries(document.boundaries.filter(b => offsets.includes(b.offset)), 'Boundaries to copy');
+            offsets = chosen.map(b => b.offset);
+        }
+
+        let forms: IffForm[];
+        try {
+            forms = document.copyItems(offsets);
+            if (forms.length === 0) return;
+            await vscode.env.clipboard.writeText(encodeClipboard(forms));
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Copy failed: ${e.message}`);
+            return;
+        }
+
+        const layerCount = forms.filter(f => f.type === 'LAYR').length;
+        const parts = [];
+        if (layerCount) parts.push(`${layerCount} layer${layerCount === 1 ? '' : 's'}`);
+        if (forms.length > layerCount) parts.push(`${forms.length - layerCount} boundar${forms.length - layerCount === 1 ? 'y' : 'ies'}`);
+        vscode.window.showInformationMessage(`Copied ${parts.join(' and ')}`);
+    }
+
+    private async handlePaste(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        const forms = decodeClipboard(await vscode.env.clipboard.readText());
+        if (!forms) {
+            vscode.window.showErrorMessage('Nothing to paste: the clipboard holds no TRN boundaries or layers');
+            return;
+        }
+
+        let offset = { x: 0, z: 0 };
+        if (message.withOffset) {
+            const input = await vscode.window.showInputBox({
+                prompt: 'Offset added to pasted coordinates, as "x, z" in meters',
+                value: '0, 0',
+                validateInput: value => this.parseCoordinateOffset(value) ? null : 'Enter two numbers, e.g. 512, -256'
+            });
+            const parsed = input === undefined ? null : this.parseCoordinateOffset(input);
+            if (!parsed) return;
+            offset = parsed;
+        }
+
+        let newOffsets: number[] | null = null;
+        const label = `Paste ${forms.length} item${forms.length === 1 ? '' : 's'}`;
+        // A throw is reported with its own message by applyUndoableStructuralEdit
+        const pasted = this.applyUndoableStructuralEdit(document, label, () => {
+            newOffsets = document.pasteItems(forms, Number(message.targetOffset), offset.x, offset.z);
+            if (!newOffsets) {
+                vscode.window.showErrorMessage('Boundaries can only be pasted into a layer');
+            }
+            return newOffsets !== null;
+        });
+        if (!pasted || !newOffsets) return;
+
+        // Show a single pasted boundary in the property panel
+        if (forms.length === 1 && forms[0].type !== 'LAYR') {
+            webviewPanel.webview.postMessage({ type: 'selectBoundary', offset: newOffsets[0] });
+        }
+    }
+
+    private parseCoordinateOffset(value: string): Point2D | null {
+        const parts = value.split(/[\s,]+/).filter(p => p !== '');
+        if (parts.length !== 2) return null;
+        const [x, z] = parts.map(Number);
+        return isFinite(x) && isFinite(z) ? { x, z } : null;
+    }
+
+    // Let the user untick some of several boundaries
+    private async pickBoundaries(boundaries: Boundary[], placeHolder: string): Promise<Boundary[]> {
+        if (boundaries.length < 2) return boundaries;
+        const picks = await vscode.window.showQuickPick(
+            boundaries.map(b => ({ label: b.name, description: b.type, picked: true, boundary: b })),
+            { canPickMany: true, placeHolder }
+        );
+        return picks ? picks.map(p => p.boundary) : [];
+    }
+
+    // For async message handlers, so a rejection is shown rather than lost
+    private reportFailure(label: string): (e: any) => void {
+        return e => vscode.window.showErrorMessage(`${label} failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    /**
+     * Run an edit that rebuilds the file and register it for undo as
+     * whole-file snapshots, since offsets move
+     */
+    private applyUndoableStructuralEdit(document: TRNDocument, label: string, edit: () => boolean): boolean {
+        const before = document.getData();
+        let applied: boolean;
+        try {
+            applied = edit();
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`${label} failed: ${e.message}`);
+            return false;
+        }
+        if (!applied) return false;
+
+        const after = document.getData();
+        this._onDidChangeCustomDocument.fire({
+            document,
+            label,
+            undo: async () => { document.replaceData(before); },
+            redo: async () => { document.replaceData(after); }
+        });
+        return true;
+    }
+
+    /**
+     * Coerce a webview value to the header field's stored type and check
+     * its range against the rest of the header
+     */
+    private parseMapInfoValue(mapInfo: MapInfo, field: keyof MapInfo, raw: any): { value: number | string | boolean } | { error: string } {
+        const entry = MAP_INFO_LAYOUT.find(e => e.field === field);
+        if (!entry) return { error: 'not a header field' };
+
+        let value: number | string | boolean;
+        switch (entry.type) {
+            case 'bool':
+                value = raw === true || raw === 'true' || raw === 1;
+                break;
+            case 'string':
+                value = String(raw ?? '');
+                if (!/^[\x20-\x7e]*$/.test(value)) return { error: 'use printable ASCII characters only' };
+                if (entry.maxLength && value.length >= entry.maxLength) return { error: `at most ${entry.maxLength - 1} characters` };
+                break;
+            case 'int':
+                value = Number(raw);
+                if (raw === '' || !Number.isInteger(value) || value < 0 || value > 0xFFFFFFFF) return { error: 'expected a whole number from 0 to 4294967295' };
+                break;
+            case 'float':
+                // Stored as float32; round now so undo/redo compare what is on disk
+                value = Math.fround(Number(raw));
+                if (raw === '' || !isFinite(value)) return { error: 'expected a number' };
+                break;
+        }
+
+        const error = checkMapInfoValue(mapInfo, field, value);
+        return error ? { error } : { value };
+    }
+
+    /**
+     * Resolve the TRN a command should act on: the given file, else the
+     * active TRN editor, else ask. Open editors are preferred so unsaved
+     * edits are included.
+     */
+    private async resolveCommandDocument(uri?: vscode.Uri): Promise<TRNDocument | null> {
+        if (!uri) {
+            const active = [...this.openEditors.values()].find(e => e.panel.active);
+            if (active) return active.document;
+
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'Terrain Files': ['trn'] },
+                openLabel: 'Select Terrain'
+            });
+            if (!picked || picked.length === 0) return null;
+            uri = picked[0];
+        }
+
+        const open = this.openEditors.get(uri.toString());
+        if (open) return open.document;
+
+        try {
+            return new TRNDocument(uri, await vscode.workspace.fs.readFile(uri));
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to read terrain file: ${e.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Export the computed heightmap as a 16-bit PNG, a raw .r16 and a JSON sidecar
+     */
+    public async exportHeightmap(uri?: vscode.Uri): Promise<void> {
+        const document = await this.resolveCommandDocument(uri);
+        if (!document) return;
+
+        const resolutionPick = await vscode.window.showQuickPick(
+            HEIGHTMAP_RESOLUTIONS.map(r => ({
+                label: `${r} x ${r}`,
+                description: `${(document.mapInfo.mapSize / (r - 1)).toFixed(1)} m per pixel`,
+                resolution: r
+            })),
+            { placeHolder: 'Heightmap resolution' }
+        );
+        if (!resolutionPick) return;
+        const resolution = resolutionPick.resolution;
+
+        const baseName = path.basename(document.uri.fsPath).replace(/\.trn$/i, '');
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(document.uri, '..', `${baseName}_heightmap.png`),
+            filters: { 'PNG Image': ['png'] },
+            saveLabel: 'Export Heightmap'
+        });
+        if (!target) return;
+
+        const bounds = {
+            minX: document.mapInfo.mapBoundsMin,
+            maxX: document.mapInfo.mapBoundsMax,
+            minZ: document.mapInfo.mapBoundsMin,
+            maxZ: document.mapInfo.mapBoundsMax
+        };
+
+        const heights = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Exporting ${baseName} heightmap (${resolution} x ${resolution})`,
+            cancellable: true
+        }, async (progress, token) => {
+            let reported = 0;
+            return sampleHeightmap(document.heightEvaluator, bounds, resolution, rowsDone => {
+                const percent = Math.floor(rowsDone / resolution * 100);
+                if (percent > reported) {
+                    progress.report({ increment: percent - reported, message: `${percent}%` });
+                    reported = percent;
+                }
+            }, token);
+        });
+
+        if (!heights) {
+            vscode.window.showInformationMessage('Heightmap export cancelled');
+            return;
+        }
+
+        const { samples, min, max } = quantizeHeights(heights);
+        const sidecar: HeightmapSidecar = {
+            source: path.basename(document.uri.fsPath),
+            width: resolution,
+            height: resolution,
+            minHeight: min,
+            maxHeight: max,
+            worldBounds: bounds,
+            metersPerPixel: (bounds.maxX - bounds.minX) / (resolution - 1),
+            rowOrder: 'north-to-south',
+            encoding: 'uint16, 0 = minHeight, 65535 = maxHeight; .r16 is little-endian'
+        };
+
+        const stem = target.fsPath.replace(/\.png$/i, '');
+        try {
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(stem + '.png'), encodePng16(resolution, resolution, samples));
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(stem + '.r16'), encodeR16(samples));
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(stem + '.json'), new TextEncoder().encode(JSON.stringify(sidecar, null, 2)));
+            vscode.window.showInformationMessage(`Heightmap exported to ${stem}.png/.r16/.json (${min.toFixed(1)} to ${max.toFixed(1)} m)`);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to write heightmap: ${e.message}`);
+        }
+    }
+
+    /**
+     * Rebuild every .trn in the workspace from its chunk tree and compare
+     * with the file on disk, so structural edits are known not to disturb
+     * the chunks they leave alone
+     */
+    public async verifyWorkspaceRoundTrip(): Promise<void> {
+        const files = await vscode.workspace.findFiles('**/*.trn');
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No .trn files found in the workspace');
+            return;
+        }
+
+        if (!this.roundTripOutput) {
+            this.roundTripOutput = vscode.window.createOutputChannel('TRN Round-Trip');
+            this.context.subscriptions.push(this.roundTripOutput);
+        }
+        const output = this.roundTripOutput;
+        output.clear();
+        output.show(true);
+
+        let identical = 0;
+        let checked = 0;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Verifying TRN round-trip',
+            cancellable: true
+        }, async (progress, token) => {
+            for (const uri of files) {
+                if (token.isCancellationRequested) break;
+                progress.report({ increment: 100 / files.length, message: path.basename(uri.fsPath) });
+                checked++;
+                try {
+                    const result = verifyRoundTrip(await vscode.workspace.fs.readFile(uri));
+                    if (result.identical) {
+                        identical++;
+                        const raw = result.rawRegions > 0 ? `, ${result.rawRegions} unparsed region(s) kept verbatim` : '';
+                        output.appendLine(`OK     ${uri.fsPath} (${result.originalSize} bytes${raw})`);
+                    } else {
+                        output.appendLine(`DIFF   ${uri.fsPath}: first difference at offset ${result.firstDifference} ` +
+                            `(0x${result.firstDifference.toString(16)}), ${result.originalSize} -> ${result.rebuiltSize} bytes`);
+                    }
+                } catch (e: any) {
+                    output.appendLine(`ERROR  ${uri.fsPath}: ${e.message}`);
+                }
+            }
+        });
+
+        const summary = `${identical} of ${checked} .trn file(s) round-trip byte for byte` +
+            (checked < files.length ? ` (cancelled, ${files.length - checked} not checked)` : '');
+        output.appendLine(summary);
+        if (identical === checked) {
+            vscode.window.showInformationMessage(summary);
+        } else {
+            vscode.window.showWarningMessage(`${summary} - see the TRN Round-Trip output`);
+        }
+    }
+
+    /**
+     * Compute one square tile of a map overlay on the extension host
+     * The webview requests tiles for the visible viewport and paints them
+     */
+    // Sampling a tile blocks the extension host, so give other work a turn between tiles
+    private queueOverlayWork(work: () => void): void {
+        this.overlayWork.push(work);
+        if (this.overlayWorkScheduled) return;
+        this.overlayWorkScheduled = true;
+        const runNext = () => {
+            const next = this.overlayWork.shift();
+            try {
+                next?.();
+            } catch (e: any) {
+                // The panel may have closed while the tile waited
+                console.error('Overlay tile failed:', e);
+            }
+            if (this.overlayWork.length > 0) {
+                setImmediate(runNext);
+            } else {
+                this.overlayWorkScheduled = false;
+            }
+        };
+        setImmediate(runNext);
+    }
+
+    private handleOverlayTileRequest(document: TRNDocument, message: any, webviewPanel: vscode.WebviewPanel): void {
+        const resolution = Math.max(8, Math.min(256, Math.floor(Number(message.resolution) || 64)));
+        const tileSize = Number(message.tileSize);
+        const minX = Number(message.minX);
+        const minZ = Number(message.minZ);
+        if (!(tileSize > 0) || !isFinite(minX) || !isFinite(minZ)) return;
+
+        const cellSize = tileSize / resolution;
+        let values: number[];
+        switch (message.overlay) {
+            case 'height':
+                values = document.heightEvaluator.getHeightGrid(minX, minZ + tileSize, cellSize, resolution, resolution);
+                break;
+            case 'shader':
+                // Shader family id per cell, -1 where no shader affector applies
+                values = document.heightEvaluator.sampleGrid(minX, minZ + tileSize, cellSize, resolution, resolution,
+                    sample => sample.shader ? sample.shader.familyId : -1);
+                break;
+            case 'contours':
+                // Heights at grid corners (resolution + 1 per edge) so lines meet across tile edges
+                values = document.heightEvaluator.getHeightGrid(minX - cellSize / 2, minZ + tileSize + cellSize / 2, cellSize, resolution + 1, resolution + 1);
+                break;
+            case 'environment':
+                values = document.heightEvaluator.sampleGrid(minX, minZ + tileSize, cellSize, resolution, resolution,
+                    sample => sample.environment ? sample.environment.familyId : -1);
+                break;
+            case 'water': {
+                // Depth below the water surface per cell, -1 where dry
+                const { useGlobalWaterTable, globalWaterTableHeight } = document.mapInfo;
+                values = document.heightEvaluator.sampleGrid(minX, minZ + tileSize, cellSize, resolution, resolution, sample => {
+                    const globalDepth = useGlobalWaterTable && sample.height < globalWaterTableHeight ? globalWaterTableHeight - sample.height : -1;
+                    const riverDepth = sample.water ? Math.max(0, sample.water.depth) : -1;
+                    return Math.max(globalDepth, riverDepth);
+                });
+                break;
+            }
+            case 'flora':
+                // Scattered points rather than a grid: x, z, category index, family id per point
+                values = [];
+                for (const point of scatterFlora(document.heightEvaluator, document.mapInfo, minX, minZ, tileSize)) {
+                    values.push(point.x, point.z, FLORA_CATEGORIES.indexOf(point.category), point.familyId);
+                }
+                break;
+            default:
+                return;
+        }
+
+        webviewPanel.webview.postMessage({
+            type: 'overlayTile',
+            overlay: message.overlay,
+            key: message.key,
+            generation: message.generation,
+            resolution,
+            values
+        });
+    }
+
+    /**
+     * Whole-map area per environment family, estimated on a coarse grid
+     * (each cell counts as cellSize² of terrain; -1 = no environment)
+     */
+    private handleEnvironmentCoverageRequest(document: TRNDocument, webviewPanel: vscode.WebviewPanel): void {
+        const { mapBoundsMin, mapBoundsMax, mapSize } = document.mapInfo;
+        if (!(mapSize > 0)) return;
+
+        const resolution = 128;
+        const cellSize = mapSize / resolution;
+        const ids = document.heightEvaluator.sampleGrid(mapBoundsMin, mapBoundsMax, cellSize, resolution, resolution,
+            sample => sample.environment ? sample.environment.familyId : -1);
+        const areas: Record<number, number> = {};
+        ids.forEach(id => { areas[id] = (areas[id] || 0) + cellSize * cellSize; });
+
+        webviewPanel.webview.postMessage({ type: 'environmentCoverage', cellSize, areas });
+    }
+
+    private getLayerState(document: TRNDocument): { layers: { id: string; name: string; offset: number; boundaryCount: number; depth: number }[]; boundaryLayerMap: Record<number, string> } {
         const layerHierarchy = getLayerHierarchy(document.tree.root);
 
         // Build boundary-to-layer mapping using offsets
@@ -344,20 +1115,40 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 boundaryLayerMap[b.offset] = layer.node.id;
             });
         });
-        const boundaryLayerMapJson = JSON.stringify(boundaryLayerMap);
 
         // Simplified layer data for webview (without full TRNNode objects)
-        const simplifiedLayers = layerHierarchy.map(layer => ({
+        const layers = layerHierarchy.map(layer => ({
             id: layer.node.id,
             name: layer.name,
+            offset: layer.node.offset,
             boundaryCount: layer.boundaryCount,
             depth: layer.depth
         }));
-        const layersJson = JSON.stringify(simplifiedLayers);
+        return { layers, boundaryLayerMap };
+    }
+
+    private getHtmlContent(webview: vscode.Webview, document: TRNDocument): string {
+        const boundaries = document.boundaries;
+        const boundariesJson = JSON.stringify(boundaries);
+
+        // Only pass the root node, not the full tree with boundaries/layers arrays
+        // This avoids massive duplication since boundaries/layers reference nodes in root
+        const treeJson = JSON.stringify({ root: document.tree.root });
+
+        // Layer hierarchy for layer filtering - simplified for webview
+        const layerState = this.getLayerState(document);
+        const boundaryLayerMapJson = JSON.stringify(layerState.boundaryLayerMap);
+        const layersJson = JSON.stringify(layerState.layers);
 
         // Map info for boundary visualization and info display
         const mapInfoJson = JSON.stringify(document.mapInfo);
 
+        // Shader/flora/radial/environment families for the Families tab and affector labels
+        const families = document.families;
+        const familiesJson = JSON.stringify(families);
+        const familyCount = families.shaders.length + families.flora.length + families.radial.length +
+            families.environments.length + families.fractals.length;
+
         // World snapshot objects (simplified for webview)
         const wsObjects = document.wsData ? document.wsData.objects.map(o => ({
             id: o.objectId,
@@ -505,6 +1296,50 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             border-radius: 4px;
         }
 
+        .map-controls button.active {
+            background: #f59e0b;
+            color: #000;
+        }
+
+        .profile-panel {
+            position: absolute;
+            left: 10px;
+            right: 52px;
+            bottom: 10px;
+            height: 170px;
+            background: rgba(0,0,0,0.85);
+            border-radius: 4px;
+            padding: 6px 10px;
+            display: flex;
+            flex-direction: column;
+            z-index: 11;
+        }
+
+        .profile-header {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            font-size: 12px;
+            margin-bottom: 4px;
+        }
+
+        .profile-readout {
+            font-family: monospace;
+            opacity: 0.8;
+            margin-left: auto;
+        }
+
+        .profile-panel canvas {
+            flex: 1;
+            width: 100%;
+            min-height: 0;
+        }
+
+        .map-container.with-profile .map-info,
+        .map-container.with-profile .map-query-results {
+            bottom: 190px;
+        }
+
         .map-info {
             position: absolute;
             bottom: 10px;
@@ -541,6 +1376,74 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             border-radius: 2px;
         }
 
+        .ramp-legend {
+            margin-top: 8px;
+            padding-top: 8px;
+            border-top: 1px solid rgba(255,255,255,0.2);
+            width: 140px;
+        }
+
+        .ramp-legend-title {
+            margin-bottom: 4px;
+        }
+
+        .ramp-legend-bar {
+            height: 10px;
+            border-radius: 2px;
+        }
+
+        .ramp-legend-labels {
+            display: flex;
+            justify-content: space-between;
+            font-family: monospace;
+            margin-top: 2px;
+        }
+
+        .ramp-legend-status {
+            opacity: 0.7;
+            margin-top: 2px;
+        }
+
+        .family-legend-item {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            margin: 2px 0;
+        }
+
+        .overlay-setting {
+            margin: 0 0 6px 22px;
+            font-size: 11px;
+            opacity: 0.85;
+        }
+
+        .overlay-setting input {
+            width: 48px;
+        }
+
+        .overlay-setting-status {
+            color: #f59e0b;
+        }
+
+        .family-legend-area {
+            margin-left: auto;
+            padding-left: 8px;
+            font-family: monospace;
+            opacity: 0.8;
+        }
+
+        .family-legend-item .legend-color {
+            width: 10px;
+            height: 10px;
+        }
+
+        .query-family {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            margin: 4px 0;
+        }
+
         .map-query-results {
             position: absolute;
             bottom: 10px;
@@ -567,6 +1470,81 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
 
         .map-result-item:last-child { border: none; }
 
+        .map-result-weight {
+            float: right;
+            opacity: 0.7;
+            font-family: monospace;
+        }
+
+        .map-query-results.with-trace {
+            max-width: 420px;
+            max-height: 360px;
+        }
+
+        .map-query-close {
+            float: right;
+            padding: 0 6px;
+            font-size: 12px;
+        }
+
+        .trace-loading {
+            opacity: 0.6;
+            margin-top: 6px;
+        }
+
+        .point-trace {
+            margin-top: 8px;
+            font-size: 12px;
+        }
+
+        .point-trace > summary {
+            cursor: pointer;
+            font-weight: bold;
+            margin-bottom: 4px;
+        }
+
+        .trace-layer {
+            border-left: 2px solid #3b82f6;
+            padding-left: 6px;
+            margin: 4px 0;
+        }
+
+        .trace-layer.trace-skipped {
+            border-left-color: rgba(255,255,255,0.2);
+            opacity: 0.6;
+        }
+
+        .trace-layer summary {
+            cursor: pointer;
+            display: flex;
+            gap: 8px;
+        }
+
+        .trace-layer-name {
+            font-weight: bold;
+            flex: 1;
+        }
+
+        .trace-layer-state {
+            font-family: monospace;
+            opacity: 0.8;
+        }
+
+        .trace-row {
+            display: flex;
+            gap: 8px;
+            padding: 1px 0 1px 12px;
+        }
+
+        .trace-label {
+            min-width: 110px;
+            opacity: 0.75;
+        }
+
+        .trace-pass .trace-label { color: #10b981; opacity: 1; }
+        .trace-fail .trace-label { color: #ef4444; opacity: 1; }
+        .trace-affector .trace-label { color: #f59e0b; opacity: 1; }
+
         .filter-controls {
             display: flex;
             gap: 12px;
@@ -643,6 +1621,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
 
         .results { margin-top: 16px; }
         .results-header { font-weight: bold; margin-bottom: 8px; }
+        .query-height { margin-bottom: 8px; font-family: monospace; }
 
         .no-results {
             color: var(--vscode-errorForeground);
@@ -768,6 +1747,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         <button class="main-tab" data-tab="listView">List View</button>
         <button class="main-tab" data-tab="validateView">Validate</button>
         <button class="main-tab" data-tab="infoView">Map Info</button>
+        <button class="main-tab" data-tab="familiesView">Families (${familyCount})</button>
     </div>
 
     <!-- MAP VIEW -->
@@ -785,6 +1765,30 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                         <label><input type="checkbox" id="showPolylines" checked> Polylines</label>
                     </div>
                 </div>
+                <div class="sidebar-section">
+                    <div class="sidebar-header" onclick="toggleSidebarSection('overlayFilters')">
+                        <span>▼</span> Overlays
+                    </div>
+                    <div class="sidebar-content" id="overlayFilters">
+                        <label><input type="checkbox" id="showHeightmap"> Heightmap</label>
+                        <label><input type="checkbox" id="showHillshade"> Hillshade</label>
+                        <div class="overlay-setting">
+                            Sun <input type="number" id="sunAzimuth" value="315" min="0" max="360" step="15" title="Azimuth (degrees clockwise from north)">°
+                            at <input type="number" id="sunElevation" value="45" min="1" max="90" step="5" title="Elevation above the horizon">°
+                        </div>
+                        <label><input type="checkbox" id="showSlope"> Slope</label>
+                        <label><input type="checkbox" id="showContours"> Contours</label>
+                        <div class="overlay-setting">
+                            Every <input type="number" id="contourInterval" value="10" min="0.5" step="any"> m
+                            <div id="contourStatus" class="overlay-setting-status"></div>
+                        </div>
+                        <label><input type="checkbox" id="showShaderOverlay"> Shaders</label>
+                        <label><input type="checkbox" id="showFloraOverlay"> Flora</label>
+                        <label><input type="checkbox" id="showEnvironmentOverlay"> Environments</label>
+                        <label><input type="checkbox" id="showWaterOverlay"> Water</label>
+                        <label><input type="checkbox" id="showFeather" checked> Feather Zones</label>
+                    </div>
+                </div>
                 <div class="sidebar-section">
                     <div class="sidebar-header" onclick="toggleSidebarSection('layerFilters')">
                         <span>▼</span> Layer Filters
@@ -816,6 +1820,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             <div class="map-controls">
                 <button id="zoomIn">+</button>
                 <button id="zoomOut">-</button>
+                <button id="profileTool" title="Height profile: click to add points, double-click to finish, Esc to cancel">⛰</button>
             </div>
             <div class="map-legend">
                 <div class="legend-item"><div class="legend-color" style="background:#3b82f6"></div> Circle</div>
@@ -823,9 +1828,50 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 <div class="legend-item"><div class="legend-color" style="background:#f59e0b"></div> Polygon</div>
                 <div class="legend-item"><div class="legend-color" style="background:#8b5cf6"></div> Polyline</div>
                 <div style="margin-top:8px;opacity:0.7">Click to query<br>Drag to pan<br>Scroll to zoom</div>
+                <div id="heightLegend" class="ramp-legend" style="display:none">
+                    <div class="ramp-legend-title">Height (m)</div>
+                    <div class="ramp-legend-bar" id="heightLegendBar"></div>
+                    <div class="ramp-legend-labels"><span id="heightLegendMin">-</span><span id="heightLegendMax">-</span></div>
+                    <div class="ramp-legend-status" id="heightLegendStatus"></div>
+                </div>
+                <div id="slopeLegend" class="ramp-legend" style="display:none">
+                    <div class="ramp-legend-title">Slope</div>
+                    <div class="ramp-legend-bar" id="slopeLegendBar"></div>
+                    <div class="ramp-legend-labels"><span>0°</span><span>45°</span><span>90°</span></div>
+                </div>
+                <div id="shaderLegend" class="ramp-legend" style="display:none">
+                    <div class="ramp-legend-title">Shader families</div>
+                    <div id="shaderLegendItems"></div>
+                    <div class="ramp-legend-status" id="shaderLegendStatus"></div>
+                </div>
+                <div id="environmentLegend" class="ramp-legend" style="display:none">
+                    <div class="ramp-legend-title">Environment families</div>
+                    <div id="environmentLegendItems"></div>
+                    <div class="ramp-legend-status" id="environmentLegendStatus"></div>
+                </div>
+                <div id="waterLegend" class="ramp-legend" style="display:none">
+                    <div class="ramp-legend-title">Water depth</div>
+                    <div class="ramp-legend-bar" id="waterLegendBar"></div>
+                    <div class="ramp-legend-labels"><span>0 m</span><span>30+ m</span></div>
+                    <div class="ramp-legend-status" id="waterLegendStatus"></div>
+                </div>
+                <div id="floraLegend" class="ramp-legend" style="display:none">
+                    <div class="ramp-legend-title">Flora families</div>
+                    <div id="floraLegendItems"></div>
+                    <div class="ramp-legend-status" id="floraLegendStatus"></div>
+                </div>
             </div>
             <div class="map-info" id="mapInfo">Coords: (0, 0)</div>
             <div class="map-query-results" id="mapQueryResults" style="display:none;"></div>
+            <div class="profile-panel" id="profilePanel" style="display:none">
+                <div class="profile-header">
+                    <strong id="profileTitle"></strong>
+                    <span id="profileSummary"></span>
+                    <span id="profileReadout" class="profile-readout"></span>
+                    <button class="map-query-close" onclick="closeHeightProfile()" title="Close">✕</button>
+                </div>
+                <canvas id="profileChart"></canvas>
+            </div>
                 </div>
 
                 <!-- BOTTOM INFO PANEL (inside map-main, under map) -->
@@ -1232,6 +2278,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             </div>
         </div>
         <div class="tree-container" id="treeContainer"></div>
+        <div class="tree-menu" id="treeMenu"></div>
     </div>
 
     <style>
@@ -1279,6 +2326,49 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         .tree-node-header:hover {
             background: rgba(255,255,255,0.1);
         }
+        .tree-menu {
+            display: none;
+            position: fixed;
+            z-index: 1000;
+            min-width: 140px;
+            padding: 4px 0;
+            background: var(--input-bg);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.4);
+        }
+        .tree-menu button {
+            display: block;
+            width: 100%;
+            padding: 4px 12px;
+            text-align: left;
+            background: none;
+            border: none;
+            border-radius: 0;
+            color: inherit;
+            font-size: 12px;
+            cursor: pointer;
+        }
+        .tree-menu button:hover {
+            background: var(--accent);
+        }
+        .tree-node-header.drop-before {
+            box-shadow: inset 0 2px 0 var(--accent);
+        }
+        .tree-node-header.drop-after {
+            box-shadow: inset 0 -2px 0 var(--accent);
+        }
+        .tree-node-header.drop-inside {
+            outline: 1px dashed var(--accent);
+        }
+        .tree-rename {
+            flex: 1;
+            font: inherit;
+            padding: 0 4px;
+            background: var(--input-bg);
+            color: inherit;
+            border: 1px solid var(--accent);
+        }
         .tree-node-header.selected {
             background: var(--accent);
             color: var(--button-fg);
@@ -1361,6 +2451,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                     <input type="number" id="coordZ" placeholder="4500" step="any">
                 </div>
                 <button id="queryBtn">Find Boundaries</button>
+                <label style="display:flex;align-items:center;gap:6px;align-self:end;"><input type="checkbox" id="queryExplain"> Explain this point</label>
             </div>
             <div id="queryResults" class="results"></div>
         </div>
@@ -1407,11 +2498,12 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
     <div id="infoView" class="main-content">
         <div class="query-section">
             <h2>Terrain Map Information</h2>
-            <p style="opacity: 0.8; margin: 0 0 16px 0;">Global terrain parameters from the TGEN DATA chunk.</p>
+            <p style="opacity: 0.8; margin: 0 0 16px 0;">Global terrain parameters from the TGEN DATA chunk.${isEditable ? ' Changes are written to the file (Ctrl+Z to undo).' : ''}</p>
 
             <div class="info-grid">
                 <div class="info-section">
                     <h3>Map Dimensions</h3>
+                    <div class="info-row"><span class="info-label">Terrain File:</span> <span class="info-value" id="infoTerrainFile">-</span></div>
                     <div class="info-row"><span class="info-label">Map Size:</span> <span class="info-value" id="infoMapSize">-</span></div>
                     <div class="info-row"><span class="info-label">Bounds:</span> <span class="info-value" id="infoBounds">-</span></div>
                     <div class="info-row"><span class="info-label">Chunk Width:</span> <span class="info-value" id="infoChunkWidth">-</span></div>
@@ -1476,31 +2568,189 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
             gap: 16px;
         }
-        .info-section {
-            background: var(--input-bg);
+        .info-section {
+            background: var(--input-bg);
+            border: 1px solid var(--border);
+            border-radius: 8px;
+            padding: 16px;
+        }
+        .info-section h3 {
+            margin: 0 0 12px 0;
+            padding-bottom: 8px;
+            border-bottom: 1px solid var(--border);
+            font-size: 1em;
+            color: #3b82f6;
+        }
+        .info-row {
+            display: flex;
+            justify-content: space-between;
+            padding: 4px 0;
+            font-size: 0.9em;
+        }
+        .info-label {
+            opacity: 0.7;
+        }
+        .info-value {
+            font-family: monospace;
+            color: #10b981;
+        }
+        .info-input {
+            background: var(--input-bg);
+            border: 1px solid var(--border);
+            color: var(--fg);
+            padding: 2px 6px;
+            border-radius: 3px;
+            font-family: monospace;
+            width: 140px;
+        }
+        .info-input:focus {
+            outline: none;
+            border-color: var(--accent);
+        }
+    </style>
+
+    <!-- FAMILIES VIEW -->
+    <div id="familiesView" class="main-content">
+        <div class="query-section">
+            <h2>Terrain Families</h2>
+            <p style="opacity: 0.8; margin: 0 0 12px 0;">Shader, flora, radial and environment families referenced by affectors, with the assets each pulls in.</p>
+            <input type="text" id="familySearch" placeholder="Filter by family or asset name..." style="width:100%">
+        </div>
+        <div id="fractalPreviewPanel" class="fractal-preview" style="display:none">
+            <div class="fractal-preview-header">
+                <span id="fractalPreviewTitle">Fractal Preview</span>
+                <button id="fractalPreviewReset" title="Restore the values stored in the file">Reset</button>
+                <button id="fractalPreviewClose" title="Close preview">✕</button>
+            </div>
+            <div class="fractal-preview-body">
+                <div>
+                    <canvas id="fractalPreviewCanvas" width="256" height="256"></canvas>
+                    <div id="fractalPreviewStats" class="fractal-preview-stats"></div>
+                </div>
+                <div class="fractal-preview-controls">
+                    <label>Seed <input type="number" data-fractal="seed" step="1"></label>
+                    <label>Octaves <input type="number" data-fractal="octaves" step="1" min="1" max="16"></label>
+                    <label>Octave Param <input type="number" data-fractal="octavesParam" step="0.1"></label>
+                    <label>Amplitude <input type="number" data-fractal="amplitude" step="0.05"></label>
+                    <label>Frequency X <input type="number" data-fractal="freqX" step="0.0005"></label>
+                    <label>Frequency Z <input type="number" data-fractal="freqZ" step="0.0005"></label>
+                    <label>Offset X <input type="number" data-fractal="offsetX" step="10"></label>
+                    <label>Offset Z <input type="number" data-fractal="offsetZ" step="10"></label>
+                    <label>Combination <select data-fractal="combinationRule"></select></label>
+                    <label><input type="checkbox" data-fractal="useBias"> Bias <input type="number" data-fractal="bias" step="0.05"></label>
+                    <label><input type="checkbox" data-fractal="useGain"> Gain <input type="number" data-fractal="gain" step="0.05"></label>
+                    <label>Tile Size (m) <input type="number" id="fractalPreviewExtent" value="2048" step="256" min="1"></label>
+                </div>
+            </div>
+            <div style="opacity:0.6;font-size:0.85em;margin-top:6px">Changes here only affect the preview and are not written to the file.</div>
+        </div>
+        <div id="familyGroups"></div>
+    </div>
+
+    <style>
+        .family-group h3 {
+            margin: 16px 0 8px 0;
+            font-size: 1em;
+            color: #3b82f6;
+        }
+        .family-card {
+            background: var(--input-bg);
+            border: 1px solid var(--border);
+            border-radius: 6px;
+            padding: 10px 12px;
+            margin-bottom: 8px;
+        }
+        .family-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-weight: bold;
+        }
+        .family-swatch {
+            width: 14px;
+            height: 14px;
+            border-radius: 2px;
+            border: 1px solid rgba(255,255,255,0.3);
+            flex-shrink: 0;
+        }
+        .family-meta {
+            margin-left: auto;
+            font-weight: normal;
+            font-size: 0.85em;
+            opacity: 0.7;
+            font-family: monospace;
+        }
+        .family-children {
+            margin-top: 6px;
+            font-family: monospace;
+            font-size: 0.85em;
+        }
+        .family-child {
+            display: flex;
+            justify-content: space-between;
+            gap: 12px;
+            padding: 2px 0;
+            border-bottom: 1px solid rgba(255,255,255,0.05);
+        }
+        .family-child-weight {
+            opacity: 0.7;
+        }
+        .family-card.clickable {
+            cursor: pointer;
+        }
+        .family-card.clickable:hover {
+            border-color: #3b82f6;
+        }
+        .fractal-preview {
+            background: var(--input-bg);
+            border: 1px solid #3b82f6;
+            border-radius: 6px;
+            padding: 10px 12px;
+            margin: 12px 0;
+        }
+        .fractal-preview-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-weight: bold;
+            margin-bottom: 8px;
+        }
+        .fractal-preview-header span {
+            flex: 1;
+        }
+        .fractal-preview-body {
+            display: flex;
+            gap: 16px;
+            flex-wrap: wrap;
+        }
+        #fractalPreviewCanvas {
+            width: 256px;
+            height: 256px;
+            image-rendering: pixelated;
             border: 1px solid var(--border);
-            border-radius: 8px;
-            padding: 16px;
         }
-        .info-section h3 {
-            margin: 0 0 12px 0;
-            padding-bottom: 8px;
-            border-bottom: 1px solid var(--border);
-            font-size: 1em;
-            color: #3b82f6;
+        .fractal-preview-stats {
+            font-family: monospace;
+            font-size: 0.85em;
+            opacity: 0.8;
+            margin-top: 4px;
         }
-        .info-row {
-            display: flex;
-            justify-content: space-between;
-            padding: 4px 0;
+        .fractal-preview-controls {
+            display: grid;
+            grid-template-columns: repeat(2, minmax(160px, 1fr));
+            gap: 6px 12px;
+            align-content: start;
             font-size: 0.9em;
         }
-        .info-label {
-            opacity: 0.7;
+        .fractal-preview-controls label {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            justify-content: space-between;
         }
-        .info-value {
-            font-family: monospace;
-            color: #10b981;
+        .fractal-preview-controls input[type="number"],
+        .fractal-preview-controls select {
+            width: 90px;
         }
     </style>
 
@@ -1585,6 +2835,8 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         const layerHierarchy = ${layersJson};
         const boundaryLayerMap = ${boundaryLayerMapJson};
         const mapInfo = ${mapInfoJson};
+        const families = ${familiesJson};
+        let structureVersion = ${document.structureVersion};     // Changes when edits move file offsets
 
         // World snapshot objects
         const wsObjects = ${wsObjectsJson};
@@ -1784,6 +3036,37 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             return children;
         }
 
+        // Layer ids are renumbered when layers are added, removed or moved, so
+        // carry hidden/excluded state over by name path (by id for renames)
+        function carryLayerState(newLayers) {
+            const oldPaths = layerNamePaths(layerHierarchy);
+            const newPaths = layerNamePaths(newLayers);
+            const carry = set => {
+                const byPath = new Set(layerHierarchy.filter(l => set.has(l.id)).map(l => oldPaths.get(l.id)));
+                const knownPaths = new Set(oldPaths.values());
+                const result = newLayers.filter(l => byPath.has(newPaths.get(l.id)) ||
+                    (!knownPaths.has(newPaths.get(l.id)) && set.has(l.id))).map(l => l.id);
+                set.clear();
+                result.forEach(id => set.add(id));
+            };
+            const hidden = new Set(layerHierarchy.filter(l => !visibleLayers.has(l.id)).map(l => l.id));
+            carry(hidden);
+            carry(excludedLayers);
+            visibleLayers.clear();
+            newLayers.forEach(l => { if (!hidden.has(l.id)) visibleLayers.add(l.id); });
+        }
+
+        function layerNamePaths(layers) {
+            const paths = new Map();
+            const stack = [];
+            layers.forEach(l => {
+                stack.length = l.depth;
+                stack.push(l.name);
+                paths.set(l.id, stack.join('/'));
+            });
+            return paths;
+        }
+
         // Debounced WS tree re-render for view-based filtering
         let wsTreeRenderTimeout = null;
         function debouncedRenderWSTree() {
@@ -1814,6 +3097,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         let viewX = 0, viewZ = 0;  // Center of view in world coords
         let zoom = 0.05;           // Pixels per world unit
         let isDragging = false;
+        let dragDistance = 0;                    // Pixels moved since mousedown
         let lastMouseX, lastMouseY;
         let queryPoint = null;
         let queryResults = [];
@@ -1826,6 +3110,546 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             polyline: true
         };
 
+        // === MAP OVERLAYS ===
+        // Tiles are computed on the extension host a few at a time (nearest the
+        // view center first) and cached per zoom level so panning stays responsive
+        const OVERLAY_TILE_RESOLUTION = 64;      // Samples per tile edge
+        const OVERLAY_TILE_SCREEN_SIZE = 192;    // Target on-screen tile size in pixels
+        const OVERLAY_MAX_IN_FLIGHT = 2;
+        // Drawn in this order; terrain-derived lines go above the color fills
+        const overlays = { height: false, shader: false, environment: false, hillshade: false, slope: false, water: false, contours: false, flora: false };
+        const overlayTiles = new Map();          // key -> { overlay, tileSize, tx, tz, values, painted: { overlay: { canvas, version } } }
+        let overlayPending = new Set();          // keys requested for the current cache, not yet received
+        let overlayInFlight = 0;                 // requests not yet answered, including ones for a cleared cache
+        let overlayGeneration = 0;               // Bumped when the cache is cleared; older replies are dropped
+        let overlayQueue = [];                   // keys waiting to be requested
+        let overlayWanted = 0;                   // visible tiles for the current view
+        const heightRange = { min: Infinity, max: -Infinity, version: 0 };
+        const shaderFamiliesSeen = new Set();    // Family ids present in loaded shader tiles
+        const floraFamiliesSeen = new Set();     // FGRP ids of collidable/non-collidable points
+        const radialFamiliesSeen = new Set();    // RGRP ids of radial near/far points
+        let environmentCoverage = null;          // { cellSize, areas: { familyId: m² } } for the whole map
+        let environmentCoverageRequested = false;
+
+        // Flora points by category: collidable, non-collidable, radial near, radial far
+        const FLORA_POINT_RADIUS = [3, 2.5, 2, 2];
+
+        // Derived overlays are painted from another overlay's tiles
+        const OVERLAY_SOURCE = { hillshade: 'height', slope: 'height' };
+        const sun = { azimuth: 315, elevation: 45, version: 0 };
+        let contourInterval = 10;
+        const CONTOUR_MAX_SEGMENTS = 40000;      // Per tile; past this the interval is too fine for the zoom
+
+        // Slope in degrees / 90: flat green -> yellow (15°) -> orange (30°) -> red (45°) -> purple
+        const SLOPE_RAMP = [
+            [0.00, [40, 160, 70]],
+            [0.17, [200, 210, 60]],
+            [0.33, [230, 140, 40]],
+            [0.50, [200, 40, 40]],
+            [1.00, [120, 30, 120]]
+        ];
+
+        // Water depth / WATER_DEPTH_RANGE: shallow light blue -> deep navy
+        const WATER_RAMP = [
+            [0.00, [110, 190, 240]],
+            [0.40, [40, 110, 200]],
+            [1.00, [15, 35, 110]]
+        ];
+        const WATER_DEPTH_RANGE = 30;
+
+        // Height color ramp: low water blue -> green -> brown -> snow
+        const HEIGHT_RAMP = [
+            [0.00, [30, 60, 140]],
+            [0.15, [50, 120, 170]],
+            [0.30, [60, 140, 70]],
+            [0.55, [150, 160, 80]],
+            [0.75, [130, 100, 70]],
+            [1.00, [240, 240, 240]]
+        ];
+
+        function sampleRamp(ramp, t) {
+            t = Math.max(0, Math.min(1, t));
+            for (let i = 1; i < ramp.length; i++) {
+                if (t <= ramp[i][0]) {
+                    const [t0, c0] = ramp[i - 1];
+                    const [t1, c1] = ramp[i];
+                    const f = (t - t0) / (t1 - t0 || 1);
+                    return [c0[0] + (c1[0] - c0[0]) * f, c0[1] + (c1[1] - c0[1]) * f, c0[2] + (c1[2] - c0[2]) * f];
+                }
+            }
+            return ramp[ramp.length - 1][1];
+        }
+
+        function overlayTileSize() {
+            // Power-of-two world size so tiles line up across zoom levels
+            return Math.pow(2, Math.ceil(Math.log2(OVERLAY_TILE_SCREEN_SIZE / zoom)));
+        }
+
+        function overlayTileKey(overlay, tileSize, tx, tz) {
+            return overlay + ':' + tileSize + ':' + tx + ':' + tz;
+        }
+
+        function overlaySource(overlay) {
+            return OVERLAY_SOURCE[overlay] || overlay;
+        }
+
+        function drawOverlays() {
+            const active = Object.keys(overlays).filter(name => overlays[name]);
+            if (active.length === 0) return;
+
+            const tileSize = overlayTileSize();
+            // Only cover the terrain itself
+            const minX = Math.max(viewportBounds.minX, mapInfo.mapBoundsMin);
+            const maxX = Math.min(viewportBounds.maxX, mapInfo.mapBoundsMax);
+            const minZ = Math.max(viewportBounds.minZ, mapInfo.mapBoundsMin);
+            const maxZ = Math.min(viewportBounds.maxZ, mapInfo.mapBoundsMax);
+            if (minX >= maxX || minZ >= maxZ) return;
+
+            const wantedByKey = new Map();
+            let contoursTooDense = false;
+            active.forEach(overlay => {
+                const source = overlaySource(overlay);
+                for (let tx = Math.floor(minX / tileSize); tx * tileSize < maxX; tx++) {
+                    for (let tz = Math.floor(minZ / tileSize); tz * tileSize < maxZ; tz++) {
+                        const key = overlayTileKey(source, tileSize, tx, tz);
+                        const tile = overlayTiles.get(key);
+                        if (tile) {
+                            drawOverlayTile(tile, overlay);
+                            if (overlay === 'contours' && tile.contours.tooDense) contoursTooDense = true;
+                        } else {
+                            drawOverlayFallback(overlay, tileSize, tx, tz);
+                            const cx = (tx + 0.5) * tileSize - viewX;
+                            const cz = (tz + 0.5) * tileSize - viewZ;
+                            wantedByKey.set(key, { key, overlay: source, tileSize, tx, tz, dist: cx * cx + cz * cz });
+                        }
+                    }
+                }
+            });
+            document.getElementById('contourStatus').textContent = contoursTooDense
+                ? 'Too dense here - zoom in or raise the interval' : '';
+
+            // Replace the queue with what's visible now, nearest the center first
+            const wanted = [...wantedByKey.values()];
+            wanted.sort((a, b) => a.dist - b.dist);
+            overlayQueue = wanted.filter(t => !overlayPending.has(t.key));
+            overlayWanted = wanted.length;
+            pumpOverlayQueue();
+            updateOverlayLegend();
+        }
+
+        // While a tile loads, stretch the cached tile from the next coarser level
+        function drawOverlayFallback(overlay, tileSize, tx, tz) {
+            // Coarse contour lines would be drawn over by every child tile, so wait instead
+            if (overlay === 'contours') return;
+            for (let size = tileSize * 2, level = 1; level <= 4; size *= 2, level++) {
+                const parent = overlayTiles.get(overlayTileKey(overlaySource(overlay), size, Math.floor(tx * tileSize / size), Math.floor(tz * tileSize / size)));
+                if (!parent) continue;
+                if (overlay === 'flora') {
+                    // Coarser flora tiles hold a subset of the points; show those in this tile
+                    drawFloraPoints(parent.values, tx * tileSize, tz * tileSize, tileSize);
+                    return;
+                }
+                const canvasForTile = getOverlayTileCanvas(parent, overlay);
+                const scale = OVERLAY_TILE_RESOLUTION / size;
+                const srcX = (tx * tileSize - parent.tx * size) * scale;
+                const srcY = ((parent.tz + 1) * size - (tz + 1) * tileSize) * scale;
+                const srcSize = tileSize * scale;
+                const topLeft = worldToScreen(tx * tileSize, (tz + 1) * tileSize);
+                const px = tileSize * zoom;
+                ctx.drawImage(canvasForTile, srcX, srcY, srcSize, srcSize, topLeft.x, topLeft.y, px, px);
+                return;
+            }
+        }
+
+        function drawOverlayTile(tile, overlay) {
+            if (overlay === 'flora') {
+                drawFloraPoints(tile.values, tile.tx * tile.tileSize, tile.tz * tile.tileSize, tile.tileSize);
+                return;
+            }
+            if (overlay === 'contours') {
+                drawContours(tile);
+                return;
+            }
+            const topLeft = worldToScreen(tile.tx * tile.tileSize, (tile.tz + 1) * tile.tileSize);
+            const px = tile.tileSize * zoom;
+            // Overlap by a pixel to hide seams between tiles
+            ctx.drawImage(getOverlayTileCanvas(tile, overlay), topLeft.x, topLeft.y, px + 1, px + 1);
+        }
+
+        // Painted canvas for one overlay of a tile, repainted when its inputs change
+        // (the shared height range, the sun angle)
+        function getOverlayTileCanvas(tile, overlay) {
+            const version = overlay === 'height' ? heightRange.version : overlay === 'hillshade' ? sun.version : 0;
+            const painted = tile.painted[overlay] || (tile.painted[overlay] = { canvas: null, version: -1 });
+            if (!painted.canvas || painted.version !== version) {
+                painted.canvas = painted.canvas || document.createElement('canvas');
+                painted.canvas.width = tile.resolution;
+                painted.canvas.height = tile.resolution;
+                const tileCtx = painted.canvas.getContext('2d');
+                const image = tileCtx.createImageData(tile.resolution, tile.resolution);
+                if (overlay === 'height') {
+                    paintHeightTile(tile, image.data);
+                } else if (overlay === 'hillshade') {
+                    paintHillshadeTile(tile, image.data);
+                } else if (overlay === 'slope') {
+                    paintSlopeTile(tile, image.data);
+                } else if (overlay === 'shader') {
+                    paintFamilyTile(tile, image.data, families.shaders);
+                } else if (overlay === 'environment') {
+                    paintFamilyTile(tile, image.data, families.environments);
+                } else if (overlay === 'water') {
+                    paintWaterTile(tile, image.data);
+                }
+                tileCtx.putImageData(image, 0, 0);
+                painted.version = version;
+            }
+            return painted.canvas;
+        }
+
+        // Lambert shading for a sun at sun.azimuth (clockwise from north) and sun.elevation
+        function paintHillshadeTile(tile, pixels) {
+            const n = tile.resolution;
+            const azimuth = sun.azimuth * Math.PI / 180;
+            const elevation = sun.elevation * Math.PI / 180;
+            const lightX = Math.sin(azimuth) * Math.cos(elevation);
+            const lightY = Math.sin(elevation);
+            const lightZ = Math.cos(azimuth) * Math.cos(elevation);
+            for (let row = 0; row < n; row++) {
+                for (let col = 0; col < n; col++) {
+                    const i = row * n + col;
+                    const [dx, dz] = heightGradient(tile, row, col);
+                    const light = Math.max(0, (lightY - dx * lightX - dz * lightZ) / Math.sqrt(dx * dx + dz * dz + 1));
+                    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = Math.round(light * 255);
+                    pixels[i * 4 + 3] = 170;
+                }
+            }
+        }
+
+        // Slope angle in degrees, the value FSLP filters test
+        function paintSlopeTile(tile, pixels) {
+            const n = tile.resolution;
+            for (let row = 0; row < n; row++) {
+                for (let col = 0; col < n; col++) {
+                    const i = row * n + col;
+                    const [dx, dz] = heightGradient(tile, row, col);
+                    const degrees = Math.atan(Math.sqrt(dx * dx + dz * dz)) * 180 / Math.PI;
+                    const color = sampleRamp(SLOPE_RAMP, degrees / 90);
+                    pixels[i * 4] = color[0];
+                    pixels[i * 4 + 1] = color[1];
+                    pixels[i * 4 + 2] = color[2];
+                    pixels[i * 4 + 3] = 200;
+                }
+            }
+        }
+
+        // Contour segments in world space, cached per tile for the current interval
+        // lines: x1, z1, x2, z2, isIndexLine (every fifth interval)
+        function getContourLines(tile) {
+            if (tile.contours && tile.contours.interval === contourInterval) return tile.contours;
+
+            const n = tile.resolution + 1;
+            const h = tile.values;
+            const cell = tile.tileSize / tile.resolution;
+            const left = tile.tx * tile.tileSize;
+            const top = (tile.tz + 1) * tile.tileSize;
+            const lines = [];
+            let tooDense = false;
+            for (let row = 0; row < n - 1 && !tooDense; row++) {
+                for (let col = 0; col < n - 1; col++) {
+                    // Corners clockwise from top-left
+                    const v = [h[row * n + col], h[row * n + col + 1], h[(row + 1) * n + col + 1], h[(row + 1) * n + col]];
+                    const hi = Math.max(v[0], v[1], v[2], v[3]);
+                    for (let level = Math.ceil(Math.min(v[0], v[1], v[2], v[3]) / contourInterval) * contourInterval; level <= hi; level += contourInterval) {
+                        addContourCell(lines, v, level, left + col * cell, top - row * cell, cell);
+                    }
+                }
+                tooDense = lines.length / 5 > CONTOUR_MAX_SEGMENTS;
+            }
+            tile.contours = { interval: contourInterval, lines: tooDense ? [] : lines, tooDense };
+            return tile.contours;
+        }
+
+        // Marching squares for one cell; edges are top, right, bottom, left
+        function addContourCell(lines, v, level, left, top, cell) {
+            const cornerX = [left, left + cell, left + cell, left];
+            const cornerZ = [top, top, top - cell, top - cell];
+            const p = [];
+            for (let e = 0; e < 4; e++) {
+                const a = v[e];
+                const b = v[(e + 1) % 4];
+                if ((a >= level) === (b >= level)) continue;
+                const t = (level - a) / (b - a);
+                const next = (e + 1) % 4;
+                p.push(cornerX[e] + (cornerX[next] - cornerX[e]) * t, cornerZ[e] + (cornerZ[next] - cornerZ[e]) * t);
+            }
+            const index = Math.round(level / contourInterval) % 5 === 0 ? 1 : 0;
+            if (p.length === 4) {
+                lines.push(p[0], p[1], p[2], p[3], index);
+            } else if (p.length === 8) {
+                // Saddle: the cell center decides which corners are connected
+                const center = (v[0] + v[1] + v[2] + v[3]) / 4;
+                if ((center >= level) === (v[0] >= level)) {
+                    lines.push(p[0], p[1], p[2], p[3], index, p[4], p[5], p[6], p[7], index);
+                } else {
+                    lines.push(p[6], p[7], p[0], p[1], index, p[2], p[3], p[4], p[5], index);
+                }
+            }
+        }
+
+        function drawContours(tile) {
+            const lines = getContourLines(tile).lines;
+            [0, 1].forEach(index => {
+                ctx.strokeStyle = index ? 'rgba(255, 230, 160, 0.9)' : 'rgba(255, 230, 160, 0.45)';
+                ctx.lineWidth = index ? 1.5 : 1;
+                ctx.beginPath();
+                for (let i = 0; i < lines.length; i += 5) {
+                    if (lines[i + 4] !== index) continue;
+                    const a = worldToScreen(lines[i], lines[i + 1]);
+                    const b = worldToScreen(lines[i + 2], lines[i + 3]);
+                    ctx.moveTo(a.x, a.y);
+                    ctx.lineTo(b.x, b.y);
+                }
+                ctx.stroke();
+            });
+        }
+
+        function drawFloraPoints(values, minX, minZ, size) {
+            const floraColors = new Map(families.flora.map(f => [f.id, f.color]));
+            const radialColors = new Map(families.radial.map(f => [f.id, f.color]));
+            ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+            ctx.lineWidth = 1;
+            for (let i = 0; i < values.length; i += 4) {
+                const x = values[i], z = values[i + 1], category = values[i + 2];
+                if (x < minX || x >= minX + size || z < minZ || z >= minZ + size) continue;
+                const color = (category < 2 ? floraColors : radialColors).get(values[i + 3]) || { r: 128, g: 128, b: 128 };
+                const p = worldToScreen(x, z);
+                ctx.fillStyle = familyColorCss(color);
+                ctx.beginPath();
+                ctx.arc(p.x, p.y, FLORA_POINT_RADIUS[category] || 2, 0, Math.PI * 2);
+                ctx.fill();
+                ctx.stroke();
+            }
+        }
+
+        // One family id per cell, painted in the family's color (-1 = transparent)
+        function paintFamilyTile(tile, pixels, list) {
+            const colorsById = new Map(list.map(f => [f.id, f.color]));
+            tile.values.forEach((id, i) => {
+                if (id < 0) return;
+                const color = colorsById.get(id) || { r: 128, g: 128, b: 128 };
+                pixels[i * 4] = color.r;
+                pixels[i * 4 + 1] = color.g;
+                pixels[i * 4 + 2] = color.b;
+                pixels[i * 4 + 3] = 230;
+            });
+        }
+
+        // Depth below the water surface; dry cells (-1) stay clear
+        function paintWaterTile(tile, pixels) {
+            tile.values.forEach((depth, i) => {
+                if (depth < 0) return;
+                const t = depth / WATER_DEPTH_RANGE;
+                const color = sampleRamp(WATER_RAMP, t);
+                pixels[i * 4] = color[0];
+                pixels[i * 4 + 1] = color[1];
+                pixels[i * 4 + 2] = color[2];
+                pixels[i * 4 + 3] = 150 + Math.round(Math.min(1, t) * 80);
+            });
+        }
+
+        // Height change per meter east (dx) and north (dz) at a height tile sample
+        function heightGradient(tile, row, col) {
+            const n = tile.resolution;
+            const h = tile.values;
+            const cell = tile.tileSize / n;
+            const left = h[row * n + Math.max(0, col - 1)];
+            const right = h[row * n + Math.min(n - 1, col + 1)];
+            const up = h[Math.max(0, row - 1) * n + col];
+            const down = h[Math.min(n - 1, row + 1) * n + col];
+            return [(right - left) / (2 * cell), (up - down) / (2 * cell)];
+        }
+
+        // Color ramp with a simple north-west light so relief reads at a glance
+        function paintHeightTile(tile, pixels) {
+            const n = tile.resolution;
+            const h = tile.values;
+            const span = heightRange.max - heightRange.min || 1;
+            for (let row = 0; row < n; row++) {
+                for (let col = 0; col < n; col++) {
+                    const i = row * n + col;
+                    const [dx, dz] = heightGradient(tile, row, col);
+                    const shade = Math.max(0.45, Math.min(1.15, 0.85 + (dz - dx) * 0.35));
+                    const color = sampleRamp(HEIGHT_RAMP, (h[i] - heightRange.min) / span);
+                    pixels[i * 4] = Math.min(255, color[0] * shade);
+                    pixels[i * 4 + 1] = Math.min(255, color[1] * shade);
+                    pixels[i * 4 + 2] = Math.min(255, color[2] * shade);
+                    pixels[i * 4 + 3] = 255;
+                }
+            }
+        }
+
+        function pumpOverlayQueue() {
+            while (overlayInFlight < OVERLAY_MAX_IN_FLIGHT && overlayQueue.length > 0) {
+                const t = overlayQueue.shift();
+                overlayPending.add(t.key);
+                overlayInFlight++;
+                vscode.postMessage({
+                    type: 'requestOverlayTile',
+                    overlay: t.overlay,
+                    key: t.key,
+                    generation: overlayGeneration,
+                    minX: t.tx * t.tileSize,
+                    minZ: t.tz * t.tileSize,
+                    tileSize: t.tileSize,
+                    resolution: OVERLAY_TILE_RESOLUTION
+                });
+            }
+        }
+
+        function onOverlayTile(message) {
+            overlayInFlight = Math.max(0, overlayInFlight - 1);
+            // Computed before the document changed
+            if (message.generation !== overlayGeneration) {
+                pumpOverlayQueue();
+                return;
+            }
+            overlayPending.delete(message.key);
+            const [overlay, tileSize, tx, tz] = message.key.split(':');
+            if (!Object.keys(overlays).some(name => overlays[name] && overlaySource(name) === overlay)) {
+                pumpOverlayQueue();
+                return;
+            }
+            const tile = {
+                overlay,
+                tileSize: Number(tileSize),
+                tx: Number(tx),
+                tz: Number(tz),
+                resolution: message.resolution,
+                values: message.values,
+                painted: {}
+            };
+            overlayTiles.set(message.key, tile);
+
+            if (overlay === 'height') {
+                // Widen the ramp as new terrain comes in; existing tiles repaint lazily
+                let min = heightRange.min, max = heightRange.max;
+                message.values.forEach(v => { if (v < min) min = v; if (v > max) max = v; });
+                if (min !== heightRange.min || max !== heightRange.max) {
+                    heightRange.min = min;
+                    heightRange.max = max;
+                    heightRange.version++;
+                }
+            } else if (overlay === 'shader') {
+                message.values.forEach(id => { if (id >= 0) shaderFamiliesSeen.add(id); });
+            } else if (overlay === 'flora') {
+                for (let i = 0; i < message.values.length; i += 4) {
+                    (message.values[i + 2] < 2 ? floraFamiliesSeen : radialFamiliesSeen).add(message.values[i + 3]);
+                }
+            }
+            render();
+        }
+
+        function clearOverlayTiles() {
+            overlayTiles.clear();
+            overlayPending.clear();
+            overlayGeneration++;
+            overlayQueue = [];
+            heightRange.min = Infinity;
+            heightRange.max = -Infinity;
+            heightRange.version++;
+            shaderFamiliesSeen.clear();
+            floraFamiliesSeen.clear();
+            radialFamiliesSeen.clear();
+            environmentCoverage = null;
+            environmentCoverageRequested = false;
+        }
+
+        function updateOverlayLegend() {
+            const loading = overlayQueue.length + overlayPending.size;
+            const status = loading > 0 ? 'Computing ' + (overlayWanted - loading) + '/' + overlayWanted + ' tiles...' : '';
+            updateFamilyLegend('shader', [{ list: families.shaders, seen: shaderFamiliesSeen }], status);
+            updateEnvironmentLegend();
+            updateWaterLegend();
+            document.getElementById('slopeLegend').style.display = overlays.slope ? 'block' : 'none';
+            document.getElementById('slopeLegendBar').style.background = 'linear-gradient(to right, ' +
+                SLOPE_RAMP.map(([t, c]) => 'rgb(' + c.join(',') + ') ' + (t * 100) + '%').join(', ') + ')';
+            updateFamilyLegend('flora', [
+                { list: families.flora, seen: floraFamiliesSeen },
+                { list: families.radial, seen: radialFamiliesSeen, suffix: ' (radial)' }
+            ], status);
+
+            const legend = document.getElementById('heightLegend');
+            legend.style.display = overlays.height ? 'block' : 'none';
+            if (!overlays.height) return;
+
+            document.getElementById('heightLegendBar').style.background = 'linear-gradient(to right, ' +
+                HEIGHT_RAMP.map(([t, c]) => 'rgb(' + c.join(',') + ') ' + (t * 100) + '%').join(', ') + ')';
+            const hasRange = heightRange.min <= heightRange.max;
+            document.getElementById('heightLegendMin').textContent = hasRange ? heightRange.min.toFixed(0) : '-';
+            document.getElementById('heightLegendMax').textContent = hasRange ? heightRange.max.toFixed(0) : '-';
+            document.getElementById('heightLegendStatus').textContent = status;
+        }
+
+        // Every EGRP family with the area it covers across the whole map
+        function updateEnvironmentLegend() {
+            const legend = document.getElementById('environmentLegend');
+            legend.style.display = overlays.environment ? 'block' : 'none';
+            if (!overlays.environment) return;
+
+            if (!environmentCoverage) {
+                if (!environmentCoverageRequested) {
+                    environmentCoverageRequested = true;
+                    vscode.postMessage({ type: 'requestEnvironmentCoverage' });
+                }
+                document.getElementById('environmentLegendStatus').textContent = 'Measuring coverage...';
+            } else {
+                document.getElementById('environmentLegendStatus').textContent = 'Areas sampled every ' + environmentCoverage.cellSize.toFixed(0) + ' m';
+            }
+
+            const areaOf = id => environmentCoverage ? formatArea(environmentCoverage.areas[id] || 0) : '-';
+            const item = (color, label, area) => '<div class="family-legend-item"><div class="legend-color" style="background:' + color + '"></div>' +
+                escapeHtml(label) + '<span class="family-legend-area">' + area + '</span></div>';
+            let html = families.environments.map(f => item(familyColorCss(f.color), f.name, areaOf(f.id))).join('');
+            if (environmentCoverage) {
+                // Ids referenced by AENV but missing from EGRP
+                Object.keys(environmentCoverage.areas).map(Number)
+                    .filter(id => id >= 0 && !families.environments.some(f => f.id === id))
+                    .forEach(id => { html += item('rgb(128,128,128)', 'family #' + id, areaOf(id)); });
+            }
+            html += item('transparent', 'No environment', areaOf(-1));
+            document.getElementById('environmentLegendItems').innerHTML = html;
+        }
+
+        function updateWaterLegend() {
+            document.getElementById('waterLegend').style.display = overlays.water ? 'block' : 'none';
+            if (!overlays.water) return;
+            document.getElementById('waterLegendBar').style.background = 'linear-gradient(to right, ' +
+                WATER_RAMP.map(([t, c]) => 'rgb(' + c.join(',') + ') ' + (t * 100) + '%').join(', ') + ')';
+            document.getElementById('waterLegendStatus').textContent = mapInfo.useGlobalWaterTable
+                ? 'Global water table at ' + mapInfo.globalWaterTableHeight + ' m, plus rivers'
+                : 'Global water table off; rivers only';
+        }
+
+        function formatArea(squareMeters) {
+            return squareMeters >= 1e6 ? (squareMeters / 1e6).toFixed(2) + ' km²' : squareMeters.toFixed(0) + ' m²';
+        }
+
+        // Lists the families that show up in the tiles computed so far
+        function updateFamilyLegend(overlay, groups, status) {
+            const legend = document.getElementById(overlay + 'Legend');
+            legend.style.display = overlays[overlay] ? 'block' : 'none';
+            if (!overlays[overlay]) return;
+
+            const item = (color, label) => '<div class="family-legend-item"><div class="legend-color" style="background:' + color + '"></div>' + escapeHtml(label) + '</div>';
+            let html = '';
+            groups.forEach(({ list, seen, suffix = '' }) => {
+                html += list.filter(f => seen.has(f.id)).map(f => item(familyColorCss(f.color), f.name + suffix)).join('');
+                html += [...seen].filter(id => !list.some(f => f.id === id)).map(id => item('rgb(128,128,128)', 'family #' + id + suffix)).join('');
+            });
+            document.getElementById(overlay + 'LegendItems').innerHTML = html || '<div style="opacity:0.6">None yet</div>';
+            document.getElementById(overlay + 'LegendStatus').textContent = status;
+        }
+
         // Initialize map
         function initMap() {
             canvas = document.getElementById('mapCanvas');
@@ -1840,6 +3664,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             canvas.addEventListener('mouseleave', onMouseUp);
             canvas.addEventListener('wheel', onWheel);
             canvas.addEventListener('click', onClick);
+            canvas.addEventListener('dblclick', finishProfileDraft);
             canvas.addEventListener('contextmenu', onRightClick);
 
             // Controls
@@ -1847,6 +3672,19 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             document.getElementById('zoomOut').addEventListener('click', () => { zoom /= 1.5; render(); });
             document.getElementById('resetView').addEventListener('click', resetView);
             document.getElementById('fitBounds').addEventListener('click', fitAllBounds);
+            document.getElementById('profileTool').addEventListener('click', () => setProfileDrawing(!profileDrawing));
+            document.addEventListener('keydown', (e) => {
+                if (e.key === 'Escape' && profileDrawing) setProfileDrawing(false);
+            });
+
+            const chart = document.getElementById('profileChart');
+            chart.addEventListener('mousemove', onProfileChartMove);
+            chart.addEventListener('mouseleave', () => {
+                profileHover = null;
+                document.getElementById('profileReadout').textContent = '';
+                drawProfileChart();
+                render();
+            });
 
             // Filters
             ['Circles', 'Rectangles', 'Polygons', 'Polylines'].forEach(type => {
@@ -1858,6 +3696,70 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 });
             });
 
+            document.getElementById('showHeightmap').addEventListener('change', (e) => {
+                overlays.height = e.target.checked;
+                updateOverlayLegend();
+                render();
+            });
+
+            [['showHillshade', 'hillshade'], ['showSlope', 'slope'], ['showContours', 'contours']].forEach(([id, overlay]) => {
+                document.getElementById(id).addEventListener('change', (e) => {
+                    overlays[overlay] = e.target.checked;
+                    updateOverlayLegend();
+                    render();
+                });
+            });
+
+            ['sunAzimuth', 'sunElevation'].forEach(id => {
+                document.getElementById(id).addEventListener('change', () => {
+                    const azimuth = parseFloat(document.getElementById('sunAzimuth').value);
+                    const elevation = parseFloat(document.getElementById('sunElevation').value);
+                    sun.azimuth = isFinite(azimuth) ? ((azimuth % 360) + 360) % 360 : 315;
+                    sun.elevation = isFinite(elevation) ? Math.max(1, Math.min(90, elevation)) : 45;
+                    sun.version++;
+                    render();
+                });
+            });
+
+            document.getElementById('contourInterval').addEventListener('change', (e) => {
+                const interval = parseFloat(e.target.value);
+                if (interval > 0) {
+                    contourInterval = interval;
+                    render();
+                } else {
+                    e.target.value = contourInterval;
+                }
+            });
+
+            document.getElementById('showShaderOverlay').addEventListener('change', (e) => {
+                overlays.shader = e.target.checked;
+                updateOverlayLegend();
+                render();
+            });
+
+            document.getElementById('showEnvironmentOverlay').addEventListener('change', (e) => {
+                overlays.environment = e.target.checked;
+                updateOverlayLegend();
+                render();
+            });
+
+            document.getElementById('showWaterOverlay').addEventListener('change', (e) => {
+                overlays.water = e.target.checked;
+                updateOverlayLegend();
+                render();
+            });
+
+            document.getElementById('showFloraOverlay').addEventListener('change', (e) => {
+                overlays.flora = e.target.checked;
+                updateOverlayLegend();
+                render();
+            });
+
+            document.getElementById('showFeather').addEventListener('change', (e) => {
+                showFeatherZones = e.target.checked;
+                render();
+            });
+
             fitAllBounds();
             initLayerList();
         }
@@ -1873,7 +3775,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             layerHierarchy.forEach(layer => {
                 const depthClass = 'depth-' + Math.min(layer.depth, 3);
                 html += '<div class="layer-item ' + depthClass + '">';
-                html += '<input type="checkbox" id="layer_' + layer.id + '" checked onchange="toggleLayer(\\'' + layer.id + '\\')">';
+                html += '<input type="checkbox" id="layer_' + layer.id + '"' + (visibleLayers.has(layer.id) ? ' checked' : '') + ' onchange="toggleLayer(\\'' + layer.id + '\\')">';
                 html += '<label for="layer_' + layer.id + '" style="flex:1;cursor:pointer">' + escapeHtml(layer.name) + '</label>';
                 html += '<span class="layer-count">' + layer.boundaryCount + '</span>';
                 html += '</div>';
@@ -2173,6 +4075,9 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             // Update sidebar counts based on viewport
             updateViewCounts();
 
+            // Draw computed overlays (heightmap) underneath everything else
+            drawOverlays();
+
             // Draw grid
             drawGrid();
 
@@ -2205,13 +4110,22 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 } else if (b.type === 'polyline') {
                     drawPolyline(b);
                 }
+
+                if (showFeatherZones) {
+                    drawFeatherBand(b);
+                }
             });
 
+            drawSelection();
+            drawVertexHandles();
+
             // Draw world snapshot objects
             if (hasWorldSnapshot) {
                 drawWSObjects();
             }
 
+            drawProfileLine();
+
             // Draw query point
             if (queryPoint) {
                 const sp = worldToScreen(queryPoint.x, queryPoint.z);
@@ -2382,7 +4296,346 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 const p = worldToScreen(b.vertices[i].x, b.vertices[i].z);
                 ctx.lineTo(p.x, p.y);
             }
-            ctx.stroke();
+            ctx.stroke();
+        }
+
+        // === HEIGHT PROFILE ===
+        let profileDrawing = false;              // Map clicks place profile points instead of querying
+        let profileDraft = [];                   // Points placed so far while drawing
+        let profile = null;                      // { title, points, requestId, data }
+        let profileHover = null;                 // Distance along the line under the chart cursor
+        let profileRequestId = 0;
+
+        function setProfileDrawing(enabled) {
+            profileDrawing = enabled;
+            profileDraft = [];
+            document.getElementById('profileTool').classList.toggle('active', enabled);
+            canvas.style.cursor = enabled ? 'crosshair' : '';
+            render();
+        }
+
+        function addProfilePoint(world) {
+            // The two clicks of the finishing double-click land on the same spot
+            const last = profileDraft[profileDraft.length - 1];
+            if (last && Math.hypot(last.x - world.x, last.z - world.z) * zoom < 4) return;
+            profileDraft.push({ x: world.x, z: world.z });
+            render();
+        }
+
+        function finishProfileDraft() {
+            if (!profileDrawing || profileDraft.length < 2) return;
+            const points = profileDraft;
+            setProfileDrawing(false);
+            requestHeightProfile('Drawn line', points);
+        }
+
+        window.showBoundaryProfile = function(index) {
+            const b = boundaries[index];
+            if (b && b.vertices && b.vertices.length >= 2) {
+                requestHeightProfile(b.name || 'Polyline', b.vertices);
+            }
+        };
+
+        window.showNodeProfile = function(nodeId) {
+            const node = findNodeById(treeData.root, nodeId);
+            if (!node || !node.affector || !node.affector.points) return;
+            document.querySelector('[data-tab="mapView"]').click();
+            requestHeightProfile(node.name, node.affector.points);
+        };
+
+        function requestHeightProfile(title, points) {
+            profile = { title, points: points.map(p => ({ x: p.x, z: p.z })), requestId: ++profileRequestId, data: null };
+            profileHover = null;
+            document.getElementById('profilePanel').style.display = 'flex';
+            document.querySelector('.map-container').classList.add('with-profile');
+            document.getElementById('profileTitle').textContent = title;
+            document.getElementById('profileSummary').textContent = 'Computing...';
+            document.getElementById('profileReadout').textContent = '';
+            vscode.postMessage({ type: 'requestHeightProfile', requestId: profile.requestId, points: profile.points, samples: 512 });
+            render();
+        }
+
+        function onHeightProfile(message) {
+            if (!profile || message.requestId !== profile.requestId) return;
+            const data = message.profile;
+            // Respect the type/layer filters for the enter/exit markers
+            data.markers = data.markers.filter(m => {
+                const index = boundaries.findIndex(b => b.offset === m.offset);
+                return index < 0 || isBoundaryVisible(boundaries[index], index);
+            });
+            profile.data = data;
+            const min = Math.min(...data.heights);
+            const max = Math.max(...data.heights);
+            document.getElementById('profileSummary').textContent = data.length.toFixed(0) + ' m, height ' +
+                min.toFixed(1) + ' to ' + max.toFixed(1) + ' m, ' + data.markers.length + ' boundary crossings';
+            drawProfileChart();
+        }
+
+        window.closeHeightProfile = function() {
+            profile = null;
+            profileHover = null;
+            document.getElementById('profilePanel').style.display = 'none';
+            document.querySelector('.map-container').classList.remove('with-profile');
+            render();
+        };
+
+        // Chart plot area inside the canvas
+        const PROFILE_MARGIN = { left: 48, right: 10, top: 16, bottom: 16 };
+
+        function drawProfileChart() {
+            const chart = document.getElementById('profileChart');
+            chart.width = chart.clientWidth || 600;
+            chart.height = chart.clientHeight || 130;
+            const c = chart.getContext('2d');
+            c.clearRect(0, 0, chart.width, chart.height);
+            if (!profile || !profile.data) return;
+
+            const data = profile.data;
+            const plotW = chart.width - PROFILE_MARGIN.left - PROFILE_MARGIN.right;
+            const plotH = chart.height - PROFILE_MARGIN.top - PROFILE_MARGIN.bottom;
+            let min = Math.min(...data.heights);
+            let max = Math.max(...data.heights);
+            if (max - min < 1) { min -= 0.5; max += 0.5; }
+            const xOf = d => PROFILE_MARGIN.left + (data.length > 0 ? d / data.length : 0) * plotW;
+            const yOf = h => PROFILE_MARGIN.top + (1 - (h - min) / (max - min)) * plotH;
+
+            // Terrain cross-section
+            c.beginPath();
+            c.moveTo(xOf(0), PROFILE_MARGIN.top + plotH);
+            data.distances.forEach((d, i) => c.lineTo(xOf(d), yOf(data.heights[i])));
+            c.lineTo(xOf(data.length), PROFILE_MARGIN.top + plotH);
+            c.closePath();
+            c.fillStyle = 'rgba(96, 140, 90, 0.5)';
+            c.fill();
+            c.beginPath();
+            data.distances.forEach((d, i) => i === 0 ? c.moveTo(xOf(d), yOf(data.heights[i])) : c.lineTo(xOf(d), yOf(data.heights[i])));
+            c.strokeStyle = '#a3d977';
+            c.lineWidth = 1.5;
+            c.stroke();
+
+            // Axes labels
+            c.fillStyle = 'rgba(255,255,255,0.7)';
+            c.font = '10px monospace';
+            c.textAlign = 'right';
+            c.fillText(max.toFixed(1) + ' m', PROFILE_MARGIN.left - 4, PROFILE_MARGIN.top + 8);
+            c.fillText(min.toFixed(1) + ' m', PROFILE_MARGIN.left - 4, PROFILE_MARGIN.top + plotH);
+            c.textAlign = 'left';
+            c.fillText('0 m', PROFILE_MARGIN.left, chart.height - 3);
+            c.textAlign = 'right';
+            c.fillText(data.length.toFixed(0) + ' m', PROFILE_MARGIN.left + plotW, chart.height - 3);
+
+            // Boundary markers: solid where the line enters, dashed where it leaves
+            data.markers.forEach((m, i) => {
+                const x = xOf(m.distance);
+                c.strokeStyle = colors[m.type] || '#fff';
+                c.lineWidth = 1;
+                c.setLineDash(m.entering ? [] : [3, 3]);
+                c.beginPath();
+                c.moveTo(x, PROFILE_MARGIN.top);
+                c.lineTo(x, PROFILE_MARGIN.top + plotH);
+                c.stroke();
+                c.setLineDash([]);
+                c.fillStyle = colors[m.type] || '#fff';
+                c.textAlign = m.entering ? 'left' : 'right';
+                c.fillText((m.entering ? '▶ ' : '') + m.name + (m.entering ? '' : ' ◀'), x + (m.entering ? 2 : -2), PROFILE_MARGIN.top - 4 + (i % 2) * 10);
+            });
+
+            if (profileHover !== null) {
+                const x = xOf(profileHover);
+                c.strokeStyle = 'rgba(255,255,255,0.8)';
+                c.beginPath();
+                c.moveTo(x, PROFILE_MARGIN.top);
+                c.lineTo(x, PROFILE_MARGIN.top + plotH);
+                c.stroke();
+                c.fillStyle = '#fff';
+                c.beginPath();
+                c.arc(x, yOf(profileHeightAt(profileHover)), 3, 0, Math.PI * 2);
+                c.fill();
+            }
+        }
+
+        function onProfileChartMove(e) {
+            if (!profile || !profile.data) return;
+            const chart = document.getElementById('profileChart');
+            const rect = chart.getBoundingClientRect();
+            const plotW = chart.width - PROFILE_MARGIN.left - PROFILE_MARGIN.right;
+            const t = Math.max(0, Math.min(1, (e.clientX - rect.left - PROFILE_MARGIN.left) / plotW));
+            profileHover = t * profile.data.length;
+            const p = pointAlongPath(profile.points, profileHover);
+            document.getElementById('profileReadout').textContent = profileHover.toFixed(0) + ' m: ' +
+                profileHeightAt(profileHover).toFixed(2) + ' m at (' + p.x.toFixed(0) + ', ' + p.z.toFixed(0) + ')';
+            drawProfileChart();
+            render();
+        }
+
+        // Linear interpolation between the host's samples
+        function profileHeightAt(distance) {
+            const data = profile.data;
+            const step = data.length / (data.heights.length - 1 || 1);
+            const i = Math.min(data.heights.length - 2, Math.floor(distance / (step || 1)));
+            if (i < 0) return data.heights[0];
+            const t = step > 0 ? (distance - data.distances[i]) / step : 0;
+            return data.heights[i] + (data.heights[i + 1] - data.heights[i]) * Math.max(0, Math.min(1, t));
+        }
+
+        function pointAlongPath(points, distance) {
+            for (let i = 1; i < points.length; i++) {
+                const segment = Math.hypot(points[i].x - points[i - 1].x, points[i].z - points[i - 1].z);
+                if (distance <= segment || i === points.length - 1) {
+                    const t = segment > 0 ? Math.max(0, Math.min(1, distance / segment)) : 0;
+                    return { x: points[i - 1].x + (points[i].x - points[i - 1].x) * t, z: points[i - 1].z + (points[i].z - points[i - 1].z) * t };
+                }
+                distance -= segment;
+            }
+            return points[0];
+        }
+
+        // Profile path (or the one being drawn) with the chart cursor's position
+        function drawProfileLine() {
+            const points = profileDrawing ? profileDraft : profile ? profile.points : [];
+            if (points.length === 0) return;
+
+            ctx.strokeStyle = '#ffffff';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([8, 4]);
+            ctx.beginPath();
+            points.forEach((p, i) => {
+                const sp = worldToScreen(p.x, p.z);
+                if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+            });
+            ctx.stroke();
+            ctx.setLineDash([]);
+
+            ctx.fillStyle = '#ffffff';
+            points.forEach(p => {
+                const sp = worldToScreen(p.x, p.z);
+                ctx.fillRect(sp.x - 3, sp.y - 3, 6, 6);
+            });
+
+            if (!profileDrawing && profileHover !== null) {
+                const at = pointAlongPath(points, profileHover);
+                const p = worldToScreen(at.x, at.z);
+                ctx.fillStyle = '#f59e0b';
+                ctx.beginPath();
+                ctx.arc(p.x, p.y, 6, 0, Math.PI * 2);
+                ctx.fill();
+            }
+        }
+
+        // === FEATHER BANDS ===
+        // The band darkens toward the outer edge as the blend weight falls to 0
+        const FEATHER_STEPS = 12;
+        const FEATHER_SHADE = 0.75;
+        let showFeatherZones = true;
+        let featherCanvas = null;
+
+        function drawFeatherBand(b) {
+            const bandPixels = getFeatherWidth(b) * zoom;
+            if (bandPixels < 2) return;
+
+            // Shade at the outer edge of step i (0 = outer edge, FEATHER_STEPS = full weight)
+            const shade = i => FEATHER_SHADE * (1 - applyFeather(b.featherType, i / FEATHER_STEPS));
+
+            ctx.save();
+            if (b.type === 'circle') {
+                const c = worldToScreen(b.centerX, b.centerZ);
+                const r = b.radius * zoom;
+                const inner = Math.max(0, r - bandPixels);
+                const gradient = ctx.createRadialGradient(c.x, c.y, inner, c.x, c.y, r);
+                for (let i = 0; i <= FEATHER_STEPS; i++) {
+                    gradient.addColorStop(1 - i / FEATHER_STEPS, 'rgba(26,26,46,' + shade(i).toFixed(3) + ')');
+                }
+                ctx.fillStyle = gradient;
+                ctx.beginPath();
+                ctx.arc(c.x, c.y, r, 0, Math.PI * 2);
+                ctx.fill();
+                drawFeatherEdge(() => ctx.arc(c.x, c.y, inner, 0, Math.PI * 2));
+            } else if (b.type === 'rectangle' || b.type === 'polygon') {
+                // Strokes centered on the outline and clipped to the inside; the
+                // widest goes first and each narrower one deepens the shade near the edge
+                if (!traceShape(b)) { ctx.restore(); return; }
+                ctx.clip();
+                ctx.strokeStyle = 'rgb(26,26,46)';
+                ctx.lineJoin = 'round';
+                for (let i = FEATHER_STEPS; i >= 1; i--) {
+                    const outer = shade(i - 1);
+                    const next = i < FEATHER_STEPS ? shade(i) : 0;
+                    ctx.globalAlpha = 1 - (1 - outer) / (1 - next);
+                    ctx.lineWidth = 2 * bandPixels * i / FEATHER_STEPS;
+                    traceShape(b);
+                    ctx.stroke();
+                }
+                ctx.globalAlpha = 1;
+                if (b.type === 'rectangle') {
+                    const p1 = worldToScreen(Math.min(b.x1, b.x2), Math.max(b.z1, b.z2));
+                    const p2 = worldToScreen(Math.max(b.x1, b.x2), Math.min(b.z1, b.z2));
+                    drawFeatherEdge(() => ctx.rect(p1.x + bandPixels, p1.y + bandPixels, p2.x - p1.x - 2 * bandPixels, p2.y - p1.y - 2 * bandPixels));
+                }
+            } else if (b.type === 'polyline' && b.vertices.length >= 2) {
+                // Shade gets darker away from the centerline, which nested strokes
+                // can't build up directly: shade the full width offscreen, then erase inward
+                const half = b.width / 2 * zoom;
+                if (!featherCanvas) featherCanvas = document.createElement('canvas');
+                if (featherCanvas.width !== canvas.width || featherCanvas.height !== canvas.height) {
+                    featherCanvas.width = canvas.width;
+                    featherCanvas.height = canvas.height;
+                }
+                const fc = featherCanvas.getContext('2d');
+                fc.globalCompositeOperation = 'source-over';
+                fc.clearRect(0, 0, featherCanvas.width, featherCanvas.height);
+                fc.lineCap = 'round';
+                fc.lineJoin = 'round';
+                fc.strokeStyle = 'rgb(26,26,46)';
+                const strokeLine = width => {
+                    fc.lineWidth = width;
+                    fc.beginPath();
+                    b.vertices.forEach((v, i) => {
+                        const p = worldToScreen(v.x, v.z);
+                        if (i === 0) fc.moveTo(p.x, p.y); else fc.lineTo(p.x, p.y);
+                    });
+                    fc.stroke();
+                };
+                fc.globalAlpha = FEATHER_SHADE;
+                strokeLine(2 * half);
+                fc.globalCompositeOperation = 'destination-out';
+                for (let i = 1; i <= FEATHER_STEPS; i++) {
+                    const width = 2 * (half - bandPixels * i / FEATHER_STEPS);
+                    if (width <= 0) break;
+                    const previous = shade(i - 1);
+                    fc.globalAlpha = previous > 0 ? 1 - shade(i) / previous : 1;
+                    strokeLine(width);
+                }
+                ctx.drawImage(featherCanvas, 0, 0);
+            }
+            ctx.restore();
+        }
+
+        function drawFeatherEdge(tracePath) {
+            ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            tracePath();
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
+        // Build the closed outline of a rectangle or polygon as the current path
+        function traceShape(b) {
+            ctx.beginPath();
+            if (b.type === 'rectangle') {
+                const p1 = worldToScreen(b.x1, b.z1);
+                const p2 = worldToScreen(b.x2, b.z2);
+                ctx.rect(Math.min(p1.x, p2.x), Math.min(p1.y, p2.y), Math.abs(p2.x - p1.x), Math.abs(p2.y - p1.y));
+                return true;
+            }
+            if (b.vertices.length < 3) return false;
+            b.vertices.forEach((v, i) => {
+                const p = worldToScreen(v.x, v.z);
+                if (i === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y);
+            });
+            ctx.closePath();
+            return true;
         }
 
         function drawWSObjects() {
@@ -2541,6 +4794,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             if (!content) return;
 
             let html = '<div style="font-weight:bold;margin-bottom:8px;">' + (boundary.name || boundary.type) + '</div>';
+            vertexEditorIndex = -1;
 
             if (!isEditable) {
                 // Read-only mode - show values and copy button
@@ -2561,10 +4815,14 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 html += '<div class="info-row"><span class="info-label">Feather:</span><span class="info-value">' + boundary.featherAmount.toFixed(1) + '</span></div>';
                 html += '<div style="margin-top:8px;display:flex;gap:6px;flex-wrap:wrap">';
                 html += '<button class="zoom-btn" onclick="zoomToBoundary(' + index + ')">🔍 Zoom</button>';
+                if (boundary.type === 'polyline') {
+                    html += '<button class="zoom-btn" onclick="showBoundaryProfile(' + index + ')">⛰ Profile</button>';
+                }
                 html += '<button class="zoom-btn" onclick="copyToWorking()" style="background:#f59e0b">📁 Copy to Working</button>';
                 html += '</div>';
             } else {
                 // Editable mode - show input fields
+                html += '<div class="edit-row"><label>Name:</label><input type="text" maxlength="64" value="' + escapeHtml(boundary.name || '') + '" onchange="renameBoundary(' + index + ', this.value)"></div>';
                 if (boundary.type === 'circle') {
                     html += '<div class="edit-row"><label>Center X:</label><input type="number" step="0.1" value="' + boundary.centerX.toFixed(2) + '" onchange="editBoundary(' + index + ', \\'centerX\\', this.value)"></div>';
                     html += '<div class="edit-row"><label>Center Z:</label><input type="number" step="0.1" value="' + boundary.centerZ.toFixed(2) + '" onchange="editBoundary(' + index + ', \\'centerZ\\', this.value)"></div>';
@@ -2581,11 +4839,24 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                     }
                 }
                 html += '<div class="edit-row"><label>Feather:</label><input type="number" step="0.1" min="0" value="' + boundary.featherAmount.toFixed(2) + '" onchange="editBoundary(' + index + ', \\'featherAmount\\', this.value)"></div>';
-                html += '<div style="margin-top:8px"><button class="zoom-btn" onclick="zoomToBoundary(' + index + ')">🔍 Zoom Here</button></div>';
+                html += '<div style="margin-top:8px"><button class="zoom-btn" onclick="zoomToBoundary(' + index + ')">🔍 Zoom Here</button>';
+                if (boundary.type === 'polyline') {
+                    html += ' <button class="zoom-btn" onclick="showBoundaryProfile(' + index + ')">⛰ Profile</button>';
+                }
+                html += ' <button class="zoom-btn" onclick="duplicateItem(' + boundary.offset + ')">⧉ Duplicate</button>';
+                html += ' <button class="zoom-btn" onclick="moveToLayer([' + boundary.offset + '])">↪ Move…</button>';
+                html += ' <button class="zoom-btn" onclick="copyItems([' + boundary.offset + '])">⎘ Copy</button>';
+                html += ' <button class="zoom-btn" onclick="deleteItem(' + boundary.offset + ')">🗑 Delete</button>';
+                html += '</div>';
+                html += renderAddBoundaryRow(boundary);
             }
 
             content.innerHTML = html;
-            selectedBoundaryIndex = index;
+            if (selectedBoundaryIndex !== index) {
+                // Outline the new selection on the map
+                selectedBoundaryIndex = index;
+                render();
+            }
         }
 
         // Edit boundary property
@@ -2598,35 +4869,92 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             });
         };
 
+        // New boundary of a chosen type in a chosen layer (defaults to this boundary's layer)
+        function renderAddBoundaryRow(boundary) {
+            if (layerHierarchy.length === 0) return '';
+            const currentLayer = findBoundaryLayer(boundary);
+            let html = '<div class="edit-row" style="margin-top:8px"><label>Add:</label>';
+            html += '<select id="newBoundaryType">' + NEW_BOUNDARY_TYPES.map(([type, label]) => '<option value="' + type + '">' + label + '</option>').join('') + '</select>';
+            html += '<select id="newBoundaryLayer">';
+            layerHierarchy.forEach(layer => {
+                html += '<option value="' + layer.offset + '"' + (layer.id === currentLayer ? ' selected' : '') + '>' + '&nbsp;&nbsp;'.repeat(layer.depth) + escapeHtml(layer.name) + '</option>';
+            });
+            html += '</select>';
+            html += '<button class="mini-btn" onclick="addBoundaryToLayer(Number(document.getElementById(\\'newBoundaryLayer\\').value), document.getElementById(\\'newBoundaryType\\').value)">Add</button>';
+            html += '</div>';
+            return html;
+        }
+
+        window.renameBoundary = function(index, name) {
+            const boundary = boundaries[index];
+            if (!boundary || name.trim() === boundary.name) return;
+            vscode.postMessage({ type: 'renameItem', offset: boundary.offset, name: name });
+        };
+
         // Copy file to working folder
         window.copyToWorking = function() {
             vscode.postMessage({ type: 'copyToWorking' });
         };
 
-        // Show vertex editor (placeholder - will expand later)
+        // Vertex table for the selected polygon/polyline; the map shows drag handles meanwhile
+        let vertexEditorIndex = -1;
+
         window.showVertexEditor = function(index) {
             const boundary = boundaries[index];
             if (!boundary || !boundary.vertices) return;
 
+            const minVertices = boundary.type === 'polygon' ? 3 : 2;
             let html = '<div style="font-weight:bold;margin-bottom:8px;">Vertices for ' + (boundary.name || boundary.type) + '</div>';
+            html += '<div style="font-size:10px;opacity:0.7;margin-bottom:6px">Drag vertices on the map, or drag a midpoint to insert one</div>';
             html += '<div class="vertex-list">';
             boundary.vertices.forEach((v, vi) => {
                 html += '<div class="vertex-row">';
                 html += '<span class="vertex-num">#' + (vi + 1) + '</span>';
                 html += '<input type="number" step="0.1" value="' + v.x.toFixed(2) + '" onchange="editVertex(' + index + ', ' + vi + ', \\'x\\', this.value)">';
                 html += '<input type="number" step="0.1" value="' + v.z.toFixed(2) + '" onchange="editVertex(' + index + ', ' + vi + ', \\'z\\', this.value)">';
+                html += '<button class="mini-btn" title="Insert a vertex after #' + (vi + 1) + '" onclick="insertVertexAfter(' + index + ', ' + vi + ')">+</button>';
+                html += '<button class="mini-btn" title="Delete #' + (vi + 1) + '" onclick="deleteVertex(' + index + ', ' + vi + ')"' + (boundary.vertices.length <= minVertices ? ' disabled' : '') + '>✕</button>';
                 html += '</div>';
             });
             html += '</div>';
             html += '<button class="zoom-btn" onclick="showTRNBoundaryInfo(boundaries[' + index + '], ' + index + ')">← Back</button>';
 
             document.getElementById('trnInfoContent').innerHTML = html;
+            vertexEditorIndex = index;
+            render();
         };
 
-        // Edit vertex (placeholder - needs backend support)
         window.editVertex = function(boundaryIndex, vertexIndex, coord, value) {
-            // TODO: Implement vertex editing in backend
-            console.log('Edit vertex', boundaryIndex, vertexIndex, coord, value);
+            const v = boundaries[boundaryIndex].vertices[vertexIndex];
+            vscode.postMessage({
+                type: 'editVertex',
+                op: 'move',
+                boundaryIndex,
+                vertexIndex,
+                x: coord === 'x' ? parseFloat(value) : v.x,
+                z: coord === 'z' ? parseFloat(value) : v.z
+            });
+        };
+
+        // New vertex halfway to the next one (polylines extend past their last vertex)
+        window.insertVertexAfter = function(boundaryIndex, vertexIndex) {
+            const vertices = boundaries[boundaryIndex].vertices;
+            const a = vertices[vertexIndex];
+            let x, z;
+            if (vertexIndex < vertices.length - 1 || boundaries[boundaryIndex].type === 'polygon') {
+                const b = vertices[(vertexIndex + 1) % vertices.length];
+                x = (a.x + b.x) / 2;
+                z = (a.z + b.z) / 2;
+            } else {
+                const prev = vertices[vertexIndex - 1];
+                x = a.x + (a.x - prev.x) / 2;
+                z = a.z + (a.z - prev.z) / 2;
+            }
+            vscode.postMessage({ type: 'editVertex', op: 'insert', boundaryIndex, vertexIndex: vertexIndex + 1, x, z });
+        };
+
+        window.deleteVertex = function(boundaryIndex, vertexIndex) {
+            vscode.postMessage({ type: 'editVertex', op: 'delete', boundaryIndex, vertexIndex });
         };
 
         window.zoomToBoundary = function(index) {
@@ -2676,9 +5004,255 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             ctx.restore();
         }
 
+        // === VERTEX HANDLES ===
+        // While the vertex table is open, its polygon/polyline gets a square handle per
+        // vertex and a round one per segment midpoint; dragging a midpoint inserts a vertex
+        const HANDLE_HIT_RADIUS = 7;             // Pixels
+        let vertexDrag = null;                   // { boundaryIndex, vertexIndex, insert, moved }
+
+        function vertexEditBoundary() {
+            if (!isEditable || vertexEditorIndex < 0) return null;
+            const b = boundaries[vertexEditorIndex];
+            if (!b || !b.vertices || !isBoundaryVisible(b, vertexEditorIndex)) return null;
+            return b;
+        }
+
+        function vertexHandles(b) {
+            const handles = b.vertices.map((v, i) => ({ vertexIndex: i, insert: false, x: v.x, z: v.z }));
+            const segments = b.type === 'polygon' ? b.vertices.length : b.vertices.length - 1;
+            for (let i = 0; i < segments; i++) {
+                const a = b.vertices[i];
+                const c = b.vertices[(i + 1) % b.vertices.length];
+                handles.push({ vertexIndex: i + 1, insert: true, x: (a.x + c.x) / 2, z: (a.z + c.z) / 2 });
+            }
+            return handles;
+        }
+
+        function drawVertexHandles() {
+            const b = vertexEditBoundary();
+            if (!b) return;
+
+            ctx.lineWidth = 1;
+            vertexHandles(b).forEach(h => {
+                const sp = worldToScreen(h.x, h.z);
+                ctx.strokeStyle = colors[b.type];
+                if (h.insert) {
+                    ctx.fillStyle = 'rgba(26, 26, 46, 0.8)';
+                    ctx.beginPath();
+                    ctx.arc(sp.x, sp.y, 3.5, 0, Math.PI * 2);
+                    ctx.fill();
+                    ctx.stroke();
+                } else {
+                    ctx.fillStyle = '#ffffff';
+                    ctx.fillRect(sp.x - 4, sp.y - 4, 8, 8);
+                    ctx.strokeRect(sp.x - 4, sp.y - 4, 8, 8);
+                }
+            });
+        }
+
+        // Vertex handles win over midpoints when they overlap
+        function findVertexHandle(mx, my) {
+            const b = vertexEditBoundary();
+            if (!b) return null;
+            let best = null;
+            let bestDist = HANDLE_HIT_RADIUS;
+            vertexHandles(b).forEach(h => {
+                const sp = worldToScreen(h.x, h.z);
+                const dist = Math.hypot(sp.x - mx, sp.y - my) - (h.insert ? 0 : 2);
+                if (dist < bestDist) {
+                    bestDist = dist;
+                    best = h;
+                }
+            });
+            return best;
+        }
+
+        function startVertexDrag(handle) {
+            const b = boundaries[vertexEditorIndex];
+            if (handle.insert) {
+                b.vertices.splice(handle.vertexIndex, 0, { x: handle.x, z: handle.z });
+            }
+            vertexDrag = { boundaryIndex: vertexEditorIndex, vertexIndex: handle.vertexIndex, insert: handle.insert, moved: false };
+            render();
+        }
+
+        // One edit per drag, sent on release
+        function finishVertexDrag() {
+            const drag = vertexDrag;
+            vertexDrag = null;
+            if (!drag.insert && !drag.moved) return;
+            const v = boundaries[drag.boundaryIndex].vertices[drag.vertexIndex];
+            vscode.postMessage({
+                type: 'editVertex',
+                op: drag.insert ? 'insert' : 'move',
+                boundaryIndex: drag.boundaryIndex,
+                vertexIndex: drag.vertexIndex,
+                x: v.x,
+                z: v.z
+            });
+        }
+
+        // === SELECTED BOUNDARY ===
+        // The boundary in the property panel is outlined on the map. When editable,
+        // dragging inside it moves it and its handles resize it (circle radius,
+        // rectangle corners); the file changes once, on release
+        let shapeDrag = null;                    // { boundaryIndex, handle, start, original, moved }
+
+        function selectedMapBoundary() {
+            if (selectedBoundaryIndex < 0 || vertexDrag) return null;
+            const b = boundaries[selectedBoundaryIndex];
+            return b && isBoundaryVisible(b, selectedBoundaryIndex) ? b : null;
+        }
+
+        // Circles resize from the east edge, rectangles from each corner
+        function shapeHandles(b) {
+            if (b.type === 'circle') {
+                return [{ kind: 'radius', x: b.centerX + b.radius, z: b.centerZ }];
+            }
+            if (b.type === 'rectangle') {
+                return [['x1', 'z1'], ['x2', 'z1'], ['x2', 'z2'], ['x1', 'z2']].map(([xField, zField]) =>
+                    ({ kind: 'corner', xField: xField, zField: zField, x: b[xField], z: b[zField] }));
+            }
+            return [];
+        }
+
+        function drawSelection() {
+            const b = selectedMapBoundary();
+            if (!b) return;
+
+            ctx.save();
+            ctx.strokeStyle = '#ffffff';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([6, 4]);
+            ctx.beginPath();
+            if (b.type === 'circle') {
+                const center = worldToScreen(b.centerX, b.centerZ);
+                ctx.arc(center.x, center.y, b.radius * zoom, 0, Math.PI * 2);
+            } else if (b.type === 'rectangle') {
+                const p1 = worldToScreen(b.x1, b.z1);
+                const p2 = worldToScreen(b.x2, b.z2);
+                ctx.rect(Math.min(p1.x, p2.x), Math.min(p1.y, p2.y), Math.abs(p2.x - p1.x), Math.abs(p2.y - p1.y));
+            } else if (b.vertices.length > 0) {
+                b.vertices.forEach((v, i) => {
+                    const p = worldToScreen(v.x, v.z);
+                    if (i === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y);
+                });
+                if (b.type === 'polygon') ctx.closePath();
+            }
+            ctx.stroke();
+            ctx.setLineDash([]);
+
+            if (isEditable) {
+                ctx.lineWidth = 1;
+                ctx.strokeStyle = colors[b.type];
+                ctx.fillStyle = '#ffffff';
+                shapeHandles(b).forEach(h => {
+                    const sp = worldToScreen(h.x, h.z);
+                    ctx.fillRect(sp.x - 4, sp.y - 4, 8, 8);
+                    ctx.strokeRect(sp.x - 4, sp.y - 4, 8, 8);
+                });
+            }
+            ctx.restore();
+        }
+
+        function findShapeHandle(mx, my) {
+            const b = isEditable && selectedMapBoundary();
+            if (!b) return null;
+            return shapeHandles(b).find(h => {
+                const sp = worldToScreen(h.x, h.z);
+                return Math.hypot(sp.x - mx, sp.y - my) < HANDLE_HIT_RADIUS;
+            }) || null;
+        }
+
+        function isInSelectedBoundary(world) {
+            const b = isEditable && selectedMapBoundary();
+            return !!b && findBoundariesAtPoint(world.x, world.z).includes(b);
+        }
+
+        function startShapeDrag(handle, world) {
+            const b = boundaries[selectedBoundaryIndex];
+            shapeDrag = {
+                boundaryIndex: selectedBoundaryIndex,
+                handle: handle,
+                start: world,
+                original: JSON.parse(JSON.stringify(b)),
+                moved: false
+            };
+        }
+
+        function updateShapeDrag(world) {
+            const b = boundaries[shapeDrag.boundaryIndex];
+            const o = shapeDrag.original;
+            const dx = world.x - shapeDrag.start.x;
+            const dz = world.z - shapeDrag.start.z;
+            if (!shapeDrag.handle) {
+                if (b.type === 'circle') {
+                    b.centerX = o.centerX + dx;
+                    b.centerZ = o.centerZ + dz;
+                } else if (b.type === 'rectangle') {
+                    b.x1 = o.x1 + dx;
+                    b.z1 = o.z1 + dz;
+                    b.x2 = o.x2 + dx;
+                    b.z2 = o.z2 + dz;
+                } else {
+                    b.vertices = o.vertices.map(v => ({ x: v.x + dx, z: v.z + dz }));
+                }
+            } else if (shapeDrag.handle.kind === 'radius') {
+                b.radius = Math.hypot(world.x - o.centerX, world.z - o.centerZ);
+            } else {
+                b[shapeDrag.handle.xField] = world.x;
+                b[shapeDrag.handle.zField] = world.z;
+            }
+            shapeDrag.moved = true;
+            render();
+        }
+
+        // The host checks the new shape and commits it as one edit
+        function finishShapeDrag() {
+            const drag = shapeDrag;
+            shapeDrag = null;
+            if (!drag.moved) {
+                // A press without movement is an ordinary map click
+                dragDistance = 0;
+                return;
+            }
+            const b = boundaries[drag.boundaryIndex];
+            const message = { type: 'transformBoundary', op: drag.handle ? 'resize' : 'move', boundaryIndex: drag.boundaryIndex };
+            if (b.type === 'circle') {
+                message.values = { centerX: b.centerX, centerZ: b.centerZ, radius: b.radius };
+            } else if (b.type === 'rectangle') {
+                // Dragging a corner past the opposite one flips the rectangle
+                const x1 = Math.min(b.x1, b.x2), x2 = Math.max(b.x1, b.x2);
+                const z1 = Math.min(b.z1, b.z2), z2 = Math.max(b.z1, b.z2);
+                Object.assign(b, { x1: x1, z1: z1, x2: x2, z2: z2 });
+                message.values = { x1: x1, z1: z1, x2: x2, z2: z2 };
+            } else {
+                message.vertices = b.vertices;
+            }
+            vscode.postMessage(message);
+        }
+
         // Mouse handlers
         function onMouseDown(e) {
+            const rect = canvas.getBoundingClientRect();
+            const mx = e.clientX - rect.left;
+            const my = e.clientY - rect.top;
+            const handle = !profileDrawing && findVertexHandle(mx, my);
+            if (handle) {
+                // Handle presses never count as map clicks
+                dragDistance = Infinity;
+                startVertexDrag(handle);
+                return;
+            }
+            const world = screenToWorld(mx, my);
+            const shapeHandle = !profileDrawing && findShapeHandle(mx, my);
+            if (shapeHandle || (!profileDrawing && isInSelectedBoundary(world))) {
+                dragDistance = Infinity;
+                startShapeDrag(shapeHandle, world);
+                return;
+            }
             isDragging = true;
+            dragDistance = 0;
             lastMouseX = e.clientX;
             lastMouseY = e.clientY;
         }
@@ -2692,9 +5266,30 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             document.getElementById('mapInfo').textContent =
                 'Coords: (' + world.x.toFixed(1) + ', ' + world.z.toFixed(1) + ')';
 
+            if (vertexDrag) {
+                const v = boundaries[vertexDrag.boundaryIndex].vertices[vertexDrag.vertexIndex];
+                v.x = world.x;
+                v.z = world.z;
+                vertexDrag.moved = true;
+                render();
+                return;
+            }
+            if (shapeDrag) {
+                updateShapeDrag(world);
+                return;
+            }
+            let cursor = '';
+            if (!isDragging && !profileDrawing) {
+                if (findVertexHandle(mx, my)) cursor = 'move';
+                else if (findShapeHandle(mx, my)) cursor = 'crosshair';
+                else if (isInSelectedBoundary(world)) cursor = 'move';
+            }
+            canvas.style.cursor = cursor;
+
             if (isDragging) {
                 const dx = e.clientX - lastMouseX;
                 const dy = e.clientY - lastMouseY;
+                dragDistance += Math.abs(dx) + Math.abs(dy);
                 viewX -= dx / zoom;
                 viewZ += dy / zoom;  // Flip for screen coords
                 lastMouseX = e.clientX;
@@ -2704,6 +5299,12 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         }
 
         function onMouseUp() {
+            if (vertexDrag) {
+                finishVertexDrag();
+            }
+            if (shapeDrag) {
+                finishShapeDrag();
+            }
             isDragging = false;
         }
 
@@ -2716,12 +5317,18 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         }
 
         function onClick(e) {
-            if (isDragging) return;
+            // A pan ends with a click event too
+            if (isDragging || dragDistance > 3) return;
             const rect = canvas.getBoundingClientRect();
             const mx = e.clientX - rect.left;
             const my = e.clientY - rect.top;
             const world = screenToWorld(mx, my);
 
+            if (profileDrawing) {
+                addProfilePoint(world);
+                return;
+            }
+
             queryPoint = { x: world.x, z: world.z };
 
             // Check for WS object click first
@@ -2734,11 +5341,17 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             queryResults = findBoundariesAtPoint(world.x, world.z);
             render();
 
+            // Boundary hits show immediately; the layer trace follows from the host
+            showMapQueryResults(world.x, world.z, queryResults);
+            vscode.postMessage({ type: 'query', source: 'map', x: world.x, z: world.z, trace: true });
+
+            // Pick the boundary drawn on top; clicking it again picks the one beneath
             if (queryResults.length > 0) {
-                const firstResult = queryResults[0];
-                const index = boundaries.findIndex(b => b.offset === firstResult.offset);
+                const current = queryResults.indexOf(boundaries[selectedBoundaryIndex]);
+                const picked = queryResults[current > 0 ? current - 1 : queryResults.length - 1];
+                const index = boundaries.findIndex(b => b.offset === picked.offset);
                 if (index >= 0) {
-                    showTRNBoundaryInfo(firstResult, index);
+                    showTRNBoundaryInfo(picked, index);
                 }
             }
         }
@@ -2827,14 +5440,34 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             return Math.sqrt((px - nearX)**2 + (pz - nearZ)**2);
         }
 
-        function showMapQueryResults(x, z, results) {
+        // Copies of applyFeather/getFeatherWidth in trnParser.ts; change them together.
+        // Point weights are not computed here: they come from the host with the query results
+        function applyFeather(featherType, t) {
+            t = Math.max(0, Math.min(1, t));
+            if (featherType === 1) return t * t;
+            if (featherType === 2) return 1 - (1 - t) * (1 - t);
+            if (featherType === 3) return t * t * (3 - 2 * t);
+            return t;
+        }
+
+        function getFeatherWidth(b) {
+            const amount = Math.max(0, b.featherAmount);
+            if (b.type === 'circle') return b.radius * Math.min(1, amount);
+            if (b.type === 'rectangle') return Math.min(Math.abs(b.x2 - b.x1), Math.abs(b.z2 - b.z1)) * 0.5 * Math.min(1, amount);
+            if (b.type === 'polygon') return amount;
+            if (b.type === 'polyline') return b.width * 0.5 * Math.min(1, amount);
+            return 0;
+        }
+
+        // Weights come with the host's reply; until then the hits show without them
+        function showMapQueryResults(x, z, results, weights) {
             const div = document.getElementById('mapQueryResults');
             let html = '';
             if (results.length === 0) {
                 html = '<h4>Query: (' + x.toFixed(1) + ', ' + z.toFixed(1) + ')</h4><p>No boundaries found</p>';
             } else {
                 html = '<h4>' + results.length + ' at (' + x.toFixed(1) + ', ' + z.toFixed(1) + ')</h4>';
-                results.forEach(b => {
+                results.forEach((b, i) => {
                     html += '<div class="map-result-item"><span class="boundary-type type-' + b.type + '" style="font-size:10px">' + b.type + '</span> ';
                     if (b.type === 'circle') {
                         html += 'R=' + b.radius.toFixed(0);
@@ -2845,13 +5478,111 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                     } else if (b.type === 'polyline') {
                         html += b.vertices.length + ' points, W=' + b.width.toFixed(0);
                     }
+                    if (weights) html += ' <span class="map-result-weight">w=' + formatWeight(weights[i]) + '</span>';
                     html += '</div>';
                 });
             }
-            div.innerHTML = html;
+            html += '<div id="mapPointTrace" class="trace-loading">Evaluating layers...</div>';
+            div.innerHTML = '<button class="map-query-close" onclick="closeMapQueryResults()" title="Close">✕</button>' + html;
+            div.classList.add('with-trace');
             div.style.display = 'block';
         }
 
+        window.closeMapQueryResults = function() {
+            document.getElementById('mapQueryResults').style.display = 'none';
+            queryPoint = null;
+            render();
+        };
+
+        function showMapPointTrace(message) {
+            const target = document.getElementById('mapPointTrace');
+            // Ignore replies for a point that's no longer selected
+            if (!target || !queryPoint || queryPoint.x !== message.x || queryPoint.z !== message.z) return;
+            // Redraw the hits with the host's weights, which replaces the trace placeholder too
+            showMapQueryResults(message.x, message.z, message.boundaries, message.weights);
+            const trace = document.getElementById('mapPointTrace');
+            trace.className = '';
+            trace.innerHTML = '<div class="query-height">Height: <strong>' + message.height.toFixed(2) + ' m</strong></div>' +
+                renderFamilyHit('Shader', families.shaders, message.shader) +
+                renderFamilyHit('Environment', families.environments, message.environment) +
+                renderPointTrace(message.trace, false);
+        }
+
+        // Family left at a point by the layer pass, and which layer item set it
+        function renderFamilyHit(label, list, hit) {
+            if (!hit) return '<div class="query-family">' + label + ': <em>none</em></div>';
+            const family = list.find(f => f.id === hit.familyId);
+            const swatch = '<div class="legend-color" style="background:' + (family ? familyColorCss(family.color) : 'rgb(128,128,128)') + '"></div>';
+            return '<div class="query-family">' + label + ': ' + swatch + '<strong>' + escapeHtml(familyLabel(list, hit.familyId)) + '</strong>' +
+                '<span style="opacity:0.7">from ' + escapeHtml(hit.layer) + ' / ' + escapeHtml(hit.affector) + '</span></div>';
+        }
+
+        // === POINT TRACE ("explain this point") ===
+        function formatWeight(weight) {
+            return weight >= 1 ? '1' : weight <= 0 ? '0' : weight.toFixed(3);
+        }
+
+        function describeTraceAffector(a) {
+            const data = a.affector;
+            if (data.tag === 'AHCN' || data.tag === 'AHFR' || data.tag === 'AHTR') {
+                const delta = a.heightAfter - a.heightBefore;
+                return (delta >= 0 ? '+' : '') + delta.toFixed(2) + ' m (' + a.heightBefore.toFixed(2) + ' → ' + a.heightAfter.toFixed(2) + ')';
+            }
+            // Shader/flora/environment affectors don't change height; show what they'd apply
+            return describeAffector(data);
+        }
+
+        function renderLayerTrace(layer) {
+            const skipped = layer.skipped || '';
+            let html = '<details class="trace-layer' + (skipped ? ' trace-skipped' : '') + '" style="margin-left:' + (layer.depth * 12) + 'px"' + (skipped ? '' : ' open') + '>';
+            html += '<summary><span class="trace-layer-name">' + escapeHtml(layer.name) + '</span>';
+            html += '<span class="trace-layer-state">' + (skipped || ('weight ' + formatWeight(layer.amount))) + '</span></summary>';
+
+            if (layer.active) {
+                // Boundaries
+                let bText;
+                if (layer.boundaryCount === 0) {
+                    bText = 'none (whole map)';
+                } else if (layer.boundaries.length === 0) {
+                    bText = 'no match of ' + layer.boundaryCount;
+                } else {
+                    bText = layer.boundaries.map(b => escapeHtml(b.name) + ' <span class="boundary-type type-' + b.type + '">' + b.type + '</span> ' + formatWeight(b.weight)).join(', ');
+                }
+                html += '<div class="trace-row"><span class="trace-label">Boundaries' + (layer.invertBoundaries ? ' (inverted)' : '') + '</span><span>' + bText + '</span></div>';
+
+                // Filters
+                layer.filters.forEach(f => {
+                    const state = f.value === undefined ? 'not evaluated (passes)'
+                        : (f.weight > 0 ? 'pass ' + formatWeight(f.weight) : 'fail') + ' at ' + f.value.toFixed(2);
+                    html += '<div class="trace-row ' + (f.weight > 0 ? 'trace-pass' : 'trace-fail') + '"><span class="trace-label">' + f.filter.tag + ' ' + escapeHtml(f.name) + '</span>';
+                    html += '<span>' + escapeHtml(describeFilter(f.filter)) + ' - ' + state + '</span></div>';
+                });
+                if (layer.filters.length > 0 && layer.invertFilters) {
+                    html += '<div class="trace-row"><span class="trace-label">Filters inverted</span><span>' + formatWeight(layer.filterWeight) + '</span></div>';
+                }
+
+                // Affectors
+                layer.affectors.forEach(a => {
+                    html += '<div class="trace-row trace-affector"><span class="trace-label">' + a.affector.tag + ' ' + escapeHtml(a.name) + '</span>';
+                    html += '<span>' + escapeHtml(describeTraceAffector(a)) + (a.amount < 1 ? ' @ ' + formatWeight(a.amount) : '') + '</span></div>';
+                });
+            }
+            html += '</details>';
+            return html;
+        }
+
+        function renderPointTrace(trace, open) {
+            const visited = trace.layers.filter(l => l.amount > 0).length;
+            let html = '<details class="point-trace"' + (open ? ' open' : '') + '>';
+            html += '<summary>Explain this point - ' + trace.layers.length + ' layers, ' + visited + ' applied</summary>';
+            if (trace.layers.length === 0) {
+                html += '<div style="opacity:0.7">No layers in this file.</div>';
+            }
+            trace.layers.forEach(layer => { html += renderLayerTrace(layer); });
+            html += '</details>';
+            return html;
+        }
+
         // Main tabs
         document.querySelectorAll('.main-tab').forEach(tab => {
             tab.addEventListener('click', () => {
@@ -2886,7 +5617,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             const x = document.getElementById('coordX').value;
             const z = document.getElementById('coordZ').value;
             if (x && z) {
-                vscode.postMessage({ type: 'query', x, z });
+                vscode.postMessage({ type: 'query', x, z, trace: document.getElementById('queryExplain').checked });
             }
         });
 
@@ -2924,16 +5655,31 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
         // Handle messages from extension
         window.addEventListener('message', event => {
             const message = event.data;
-            if (message.type === 'queryResults') {
+            if (message.type === 'queryResults' && message.source === 'map') {
+                showMapPointTrace(message);
+            } else if (message.type === 'queryResults') {
                 const resultsDiv = document.getElementById('queryResults');
                 const bs = message.boundaries;
+                const heightHtml = '<div class="query-height">Terrain height: <strong>' + message.height.toFixed(2) + ' m</strong></div>' +
+                    renderFamilyHit('Shader', families.shaders, message.shader) +
+                    renderFamilyHit('Environment', families.environments, message.environment);
                 if (bs.length === 0) {
-                    resultsDiv.innerHTML = '<div class="results-header">Results for (' + message.x + ', ' + message.z + ')</div><div class="no-results">No boundaries found.</div>';
+                    resultsDiv.innerHTML = '<div class="results-header">Results for (' + message.x + ', ' + message.z + ')</div>' + heightHtml + '<div class="no-results">No boundaries found.</div>';
                 } else {
-                    resultsDiv.innerHTML = '<div class="results-header">Found ' + bs.length + ' at (' + message.x + ', ' + message.z + ')</div>' + bs.map(renderBoundaryCard).join('');
+                    resultsDiv.innerHTML = '<div class="results-header">Found ' + bs.length + ' at (' + message.x + ', ' + message.z + ')</div>' + heightHtml + bs.map((b, i) => renderBoundaryCard(b, message.weights[i])).join('');
+                }
+                if (message.trace) {
+                    resultsDiv.innerHTML += renderPointTrace(message.trace, true);
                 }
             } else if (message.type === 'validationResults') {
                 showValidationResults(message);
+            } else if (message.type === 'overlayTile') {
+                onOverlayTile(message);
+            } else if (message.type === 'heightProfile') {
+                onHeightProfile(message);
+            } else if (message.type === 'environmentCoverage') {
+                environmentCoverage = message;
+                updateOverlayLegend();
             } else if (message.type === 'treeData') {
                 // Lazy-loaded tree data received
                 treeData = message.tree;
@@ -2987,7 +5733,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             }
         }
 
-        function renderBoundaryCard(b) {
+        function renderBoundaryCard(b, weight) {
             let details = '';
             if (b.type === 'circle') {
                 details = '<div class="detail-item"><span class="detail-label">Center</span><span class="detail-value">(' + b.centerX.toFixed(1) + ', ' + b.centerZ.toFixed(1) + ')</span></div><div class="detail-item"><span class="detail-label">Radius</span><span class="detail-value">' + b.radius.toFixed(1) + '</span></div>';
@@ -2998,6 +5744,9 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             } else if (b.type === 'polyline') {
                 details = '<div class="detail-item"><span class="detail-label">Vertices</span><span class="detail-value">' + b.vertices.length + '</span></div><div class="detail-item"><span class="detail-label">Width</span><span class="detail-value">' + b.width.toFixed(1) + '</span></div>';
             }
+            if (weight !== undefined) {
+                details += '<div class="detail-item"><span class="detail-label">Weight</span><span class="detail-value">' + formatWeight(weight) + ' (' + featherTypeName(b.featherType) + ')</span></div>';
+            }
             return '<div class="boundary-card"><div class="boundary-header"><span class="boundary-name">' + b.name + '</span><span class="boundary-type type-' + b.type + '">' + b.type + '</span></div><div class="boundary-details">' + details + '</div></div>';
         }
 
@@ -3105,7 +5854,18 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             if (selectedNode === node.id) html += ' selected';
             if (node.hasError) html += ' has-error';
             if (isMatch) html += ' search-match';
-            html += '" onclick="selectNode(\\'' + node.id + '\\')">';
+            html += '" onclick="selectNode(\\'' + node.id + '\\')"';
+            if (isEditable && hasTreeMenu(node)) {
+                html += ' oncontextmenu="showTreeMenu(event, \\'' + node.id + '\\')"';
+            }
+            // Layers drag to reorder; layers and LYRS take drops
+            if (isEditable && node.type === 'LAYR') {
+                html += ' draggable="true" ondragstart="startLayerDrag(event, \\'' + node.id + '\\')" ondragend="endLayerDrag()"';
+            }
+            if (isEditable && (node.type === 'LAYR' || node.type === 'LYRS')) {
+                html += ' ondragover="layerDragOver(event, \\'' + node.id + '\\')" ondragleave="clearDropMarker(this)" ondrop="dropLayer(event, \\'' + node.id + '\\')"';
+            }
+            html += '>';
 
             // Toggle
             if (hasChildren) {
@@ -3117,8 +5877,12 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             // Type badge
             html += '<span class="tree-type ' + typeClass + '">' + node.type + '</span>';
 
-            // Name
-            html += '<span class="tree-name">' + escapeHtml(node.name) + '</span>';
+            // Name (layers and boundaries rename on double-click)
+            if (isEditable && isRenamable(node)) {
+                html += '<span class="tree-name" title="Double-click to rename" ondblclick="event.stopPropagation(); startRename(\\'' + node.id + '\\')">' + escapeHtml(node.name) + '</span>';
+            } else {
+                html += '<span class="tree-name">' + escapeHtml(node.name) + '</span>';
+            }
 
             // Info (for boundaries)
             if (node.data) {
@@ -3128,31 +5892,393 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                     html += '<span class="tree-info">[' + node.data.x1.toFixed(0) + ',' + node.data.z1.toFixed(0) + ' to ' + node.data.x2.toFixed(0) + ',' + node.data.z2.toFixed(0) + ']</span>';
                 } else if ((node.type === 'BPOL' || node.type === 'BPLN') && node.data.vertexCount !== undefined) {
                     html += '<span class="tree-info">' + node.data.vertexCount + ' vertices</span>';
+                } else if (node.affector || node.filter) {
+                    html += '<span class="tree-info">' + escapeHtml(describeLayerItem(node)) + '</span>';
+                } else if (node.fractal) {
+                    html += '<span class="tree-info">' + escapeHtml(describeFractal(node.fractal)) + '</span>';
+                }
+            }
+
+            // Error indicator
+            if (node.hasError) {
+                html += '<span style="color:#ef4444;margin-left:8px" title="' + escapeHtml(node.errorMessage || '') + '">⚠</span>';
+            }
+
+            html += '</div>';
+
+            // Decoded parameters for the selected affector/filter
+            if (selectedNode === node.id && (node.affector || node.filter || node.fractal)) {
+                html += '<div class="node-details">' + renderParamRows(node.affector || node.filter || node.fractal) + '</div>';
+            }
+
+            // Children
+            if (hasChildren) {
+                html += '<div class="tree-children' + (isExpanded ? '' : ' collapsed') + '">';
+                for (const child of node.children) {
+                    html += renderNode(child, depth + 1);
+                }
+                html += '</div>';
+            }
+
+            html += '</div>';
+            return html;
+        }
+
+        function isRenamable(node) {
+            return ['LAYR', 'BCIR', 'BREC', 'BPOL', 'BPLN'].includes(node.type);
+        }
+
+        // Swap the node's name for an input; Enter or leaving the field renames, Escape cancels
+        window.startRename = function(nodeId) {
+            const node = findNodeById(treeData.root, nodeId);
+            const label = document.querySelector('.tree-node[data-id="' + nodeId + '"] > .tree-node-header .tree-name');
+            if (!node || !label) return;
+
+            const oldName = (node.data && node.data.name) || '';
+            const input = document.createElement('input');
+            input.type = 'text';
+            input.className = 'tree-rename';
+            input.maxLength = 64;
+            input.value = oldName;
+            let done = false;
+            const finish = commit => {
+                if (done) return;
+                done = true;
+                const name = input.value.trim();
+                if (commit && name !== oldName) {
+                    vscode.postMessage({ type: 'renameItem', offset: node.offset, name: name });
+                }
+                renderTree();
+            };
+            input.onclick = e => e.stopPropagation();
+            input.onkeydown = e => {
+                e.stopPropagation();
+                if (e.key === 'Enter') finish(true);
+                else if (e.key === 'Escape') finish(false);
+            };
+            input.onblur = () => finish(true);
+            label.replaceWith(input);
+            input.focus();
+            input.select();
+        };
+
+        // === TREE CONTEXT MENU ===
+        const BOUNDARY_NODE_TYPES = ['BCIR', 'BREC', 'BPOL', 'BPLN'];
+        const NEW_BOUNDARY_TYPES = [['circle', 'Circle'], ['rectangle', 'Rectangle'], ['polygon', 'Polygon'], ['polyline', 'Polyline']];
+        let treeMenuActions = [];
+
+        function hasTreeMenu(node) {
+            return isRenamable(node) || node.type === 'LYRS';
+        }
+
+        function treeMenuItems(node) {
+            if (node.type === 'LYRS') {
+                return [{ label: '+ New Layer', action: () => addLayer(node.offset) }, ...pasteMenuItems(node)];
+            }
+            const items = [{ label: '✎ Rename', action: () => startRename(node.id) }];
+            if (node.type === 'LAYR') {
+                items.push({ label: '+ New Sub-layer', action: () => addLayer(node.offset) });
+                NEW_BOUNDARY_TYPES.forEach(([type, label]) => {
+                    items.push({ label: '+ Add ' + label, action: () => addBoundaryToLayer(node.offset, type) });
+                });
+                // Sub-layers sit in their parent's version FORM (LAYR > 0003)
+                const container = findParentNode(treeData.root, node.id);
+                const owner = container && /^\\d{4}$/.test(container.type) ? findParentNode(treeData.root, container.id) : null;
+                const siblings = container ? container.children.filter(c => c.type === 'LAYR') : [];
+                const prev = siblings[siblings.indexOf(node) - 1];
+                const next = siblings[siblings.indexOf(node) + 1];
+                if (prev) items.push({ label: '↑ Move Up', action: () => moveLayer(node.offset, prev.offset, 'before') });
+                if (next) items.push({ label: '↓ Move Down', action: () => moveLayer(node.offset, next.offset, 'after') });
+                if (prev) items.push({ label: '→ Into ' + prev.data.name, action: () => moveLayer(node.offset, prev.offset, 'inside') });
+                if (owner && owner.type === 'LAYR') {
+                    items.push({ label: '← Out of ' + owner.data.name, action: () => moveLayer(node.offset, owner.offset, 'after') });
+                }
+                const layerBoundaries = boundariesOfLayer(node.offset);
+                if (layerBoundaries.length > 0) {
+                    items.push({ label: '↪ Move Boundaries to Layer…', action: () => moveToLayer(layerBoundaries, true) });
                 }
+                items.push({ label: '⎘ Copy Layer', action: () => copyItems([node.offset]) });
+                if (layerBoundaries.length > 0) {
+                    items.push({ label: '⎘ Copy Boundaries…', action: () => copyItems(layerBoundaries, true) });
+                }
+                items.push(...pasteMenuItems(node));
+                items.push({ label: '🗑 Delete Layer', action: () => deleteLayer(node.offset) });
+            } else if (BOUNDARY_NODE_TYPES.includes(node.type)) {
+                items.push({ label: '⧉ Duplicate', action: () => duplicateItem(node.offset) });
+                items.push({ label: '↪ Move to Layer…', action: () => moveToLayer([node.offset]) });
+                items.push({ label: '⎘ Copy', action: () => copyItems([node.offset]) });
+                items.push({ label: '🗑 Delete', action: () => deleteItem(node.offset) });
             }
+            return items;
+        }
+
+        window.showTreeMenu = function(event, nodeId) {
+            event.preventDefault();
+            event.stopPropagation();
+            const node = findNodeById(treeData.root, nodeId);
+            if (!node) return;
+
+            const items = treeMenuItems(node);
+            treeMenuActions = items.map(item => item.action);
+            const menu = document.getElementById('treeMenu');
+            menu.innerHTML = items.map((item, i) => '<button onclick="runTreeMenuAction(' + i + ')">' + escapeHtml(item.label) + '</button>').join('');
+            menu.style.left = event.clientX + 'px';
+            menu.style.top = event.clientY + 'px';
+            menu.style.display = 'block';
+        };
+
+        window.runTreeMenuAction = function(i) {
+            const action = treeMenuActions[i];
+            hideTreeMenu();
+            if (action) action();
+        };
+
+        function hideTreeMenu() {
+            document.getElementById('treeMenu').style.display = 'none';
+            treeMenuActions = [];
+        }
+
+        document.addEventListener('click', hideTreeMenu);
+        document.addEventListener('keydown', e => { if (e.key === 'Escape') hideTreeMenu(); });
+
+        // New boundaries go in the middle of the map view, a quarter of it across
+        window.addBoundaryToLayer = function(layerOffset, type) {
+            const viewSize = Math.min(canvas.width, canvas.height) / zoom;
+            vscode.postMessage({
+                type: 'addBoundary',
+                layerOffset: layerOffset,
+                boundaryType: type,
+                x: Math.round(viewX),
+                z: Math.round(viewZ),
+                size: Math.round(viewSize / 4) || 100
+            });
+        };
+
+        // The host asks for the target layer; when choosing it first asks which boundaries
+        window.moveToLayer = function(offsets, choose) {
+            vscode.postMessage({ type: 'moveToLayer', offsets: offsets, choose: !!choose });
+        };
+
+        // Copies go through the host to the system clipboard; pasting reads it back there
+        window.copyItems = function(offsets, choose) {
+            vscode.postMessage({ type: 'copyItems', offsets: offsets, choose: !!choose });
+        };
+
+        window.pasteItems = function(targetOffset, withOffset) {
+            vscode.postMessage({ type: 'pasteItems', targetOffset: targetOffset, withOffset: !!withOffset });
+        };
+
+        function pasteMenuItems(node) {
+            return [
+                { label: '📋 Paste', action: () => pasteItems(node.offset, false) },
+                { label: '📋 Paste with Offset…', action: () => pasteItems(node.offset, true) }
+            ];
+        }
+
+        // Offsets of the boundaries directly in a layer (not its sub-layers)
+        function boundariesOfLayer(layerOffset) {
+            const layer = layerHierarchy.find(l => l.offset === layerOffset);
+            if (!layer) return [];
+            return boundaries.filter(b => boundaryLayerMap[b.offset] === layer.id).map(b => b.offset);
+        }
+
+        window.addLayer = function(parentOffset) {
+            vscode.postMessage({ type: 'addLayer', parentOffset: parentOffset });
+        };
+
+        // The host asks for confirmation
+        window.deleteLayer = function(offset) {
+            vscode.postMessage({ type: 'deleteLayer', offset: offset });
+        };
+
+        window.moveLayer = function(offset, targetOffset, position) {
+            vscode.postMessage({ type: 'moveItem', offset: offset, targetOffset: targetOffset, position: position });
+        };
+
+        // === LAYER DRAG AND DROP ===
+        // Top quarter of a layer row drops before it, bottom quarter after, the middle inside
+        let layerDragId = null;
+
+        window.startLayerDrag = function(event, nodeId) {
+            event.stopPropagation();
+            layerDragId = nodeId;
+            event.dataTransfer.effectAllowed = 'move';
+            event.dataTransfer.setData('text/plain', nodeId);
+        };
+
+        window.endLayerDrag = function() {
+            layerDragId = null;
+            document.querySelectorAll('.drop-before, .drop-after, .drop-inside').forEach(clearDropMarker);
+        };
+
+        function layerDropPosition(event, node) {
+            if (node.type === 'LYRS') return 'inside';
+            const rect = event.currentTarget.getBoundingClientRect();
+            const ratio = rect.height > 0 ? (event.clientY - rect.top) / rect.height : 0.5;
+            return ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside';
+        }
+
+        // A layer can't be dropped on itself or anywhere inside it
+        function layerDropTarget(nodeId) {
+            const dragged = layerDragId && findNodeById(treeData.root, layerDragId);
+            if (!dragged || findNodeById(dragged, nodeId)) return null;
+            return findNodeById(treeData.root, nodeId);
+        }
+
+        window.layerDragOver = function(event, nodeId) {
+            const target = layerDropTarget(nodeId);
+            if (!target) return;
+            event.preventDefault();
+            event.dataTransfer.dropEffect = 'move';
+            clearDropMarker(event.currentTarget);
+            event.currentTarget.classList.add('drop-' + layerDropPosition(event, target));
+        };
+
+        window.clearDropMarker = function(el) {
+            el.classList.remove('drop-before', 'drop-after', 'drop-inside');
+        };
+
+        window.dropLayer = function(event, nodeId) {
+            const target = layerDropTarget(nodeId);
+            const dragged = layerDragId && findNodeById(treeData.root, layerDragId);
+            if (!target || !dragged) return;
+            event.preventDefault();
+            const position = layerDropPosition(event, target);
+            endLayerDrag();
+            moveLayer(dragged.offset, target.offset, position);
+        };
+
+        window.duplicateItem = function(offset) {
+            vscode.postMessage({ type: 'duplicateItem', offset: offset });
+        };
+
+        window.deleteItem = function(offset) {
+            vscode.postMessage({ type: 'deleteItem', offset: offset });
+        };
+
+        function escapeHtml(str) {
+            return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+
+        // === LAYER ITEM PARAMETERS ===
+        const heightOperationNames = ${JSON.stringify(HEIGHT_OPERATION_NAMES)};
+        const featherTypeNames = ${JSON.stringify(FEATHER_TYPE_NAMES)};
+
+        function operationName(op) {
+            return heightOperationNames[op] || ('Op ' + op);
+        }
 
-            // Error indicator
-            if (node.hasError) {
-                html += '<span style="color:#ef4444;margin-left:8px" title="' + escapeHtml(node.errorMessage || '') + '">⚠</span>';
-            }
+        function featherTypeName(type) {
+            return featherTypeNames[type] || ('Type ' + type);
+        }
 
-            html += '</div>';
+        function familyLabel(list, id) {
+            const family = list.find(f => f.id === id);
+            return family ? family.name + ' (#' + id + ')' : 'family #' + id;
+        }
 
-            // Children
-            if (hasChildren) {
-                html += '<div class="tree-children' + (isExpanded ? '' : ' collapsed') + '">';
-                for (const child of node.children) {
-                    html += renderNode(child, depth + 1);
+        function describeLayerItem(node) {
+            return node.affector ? describeAffector(node.affector) : describeFilter(node.filter);
+        }
+
+        // One-line summary of the range a filter accepts
+        function describeFilter(f) {
+            let text = '';
+            switch (f.tag) {
+                case 'FHGT': text = 'Height ' + f.minHeight.toFixed(1) + ' to ' + f.maxHeight.toFixed(1); break;
+                case 'FSLP': text = 'Slope ' + f.minAngle.toFixed(1) + '° to ' + f.maxAngle.toFixed(1) + '°'; break;
+                case 'FDIR': text = 'Facing ' + f.minAngle.toFixed(1) + '° to ' + f.maxAngle.toFixed(1) + '°'; break;
+                case 'FFRA': text = 'Fractal ' + familyLabel(families.fractals, f.fractalFamilyId) + ' in [' + f.minValue.toFixed(2) + ', ' + f.maxValue.toFixed(2) + ']'; break;
+                case 'FSHD': text = 'Shader ' + familyLabel(families.shaders, f.shaderFamilyId); break;
+                case 'FBIT': text = 'Bitmap #' + f.bitmapId + ' in [' + f.minValue.toFixed(2) + ', ' + f.maxValue.toFixed(2) + ']'; break;
+            }
+            if (f.featherDistance > 0) {
+                text += ', feather ' + f.featherDistance.toFixed(2) + ' ' + featherTypeName(f.featherType).toLowerCase();
+            }
+            return text;
+        }
+
+        // One-line summary of what an affector does
+        function describeAffector(a) {
+            switch (a.tag) {
+                case 'AHCN': return operationName(a.operation) + ' ' + a.height.toFixed(1);
+                case 'AHFR': return operationName(a.operation) + ' ' + a.height.toFixed(1) + ' x fractal ' + familyLabel(families.fractals, a.fractalFamilyId);
+                case 'AHTR': return 'Terrace ' + a.height.toFixed(1) + ', flat ' + (a.flatRatio * 100).toFixed(0) + '%';
+                case 'ACCN': return operationName(a.operation) + ' rgb(' + a.r + ', ' + a.g + ', ' + a.b + ')';
+                case 'ACRF': return operationName(a.operation) + ' ramp ' + a.rampName + ' (fractal ' + familyLabel(families.fractals, a.fractalFamilyId) + ')';
+                case 'ASCN': return 'Shader ' + familyLabel(families.shaders, a.shaderFamilyId);
+                case 'AFSC':
+                case 'AFSN':
+                case 'AFDN':
+                case 'AFDF': {
+                    const isRadial = a.tag === 'AFDN' || a.tag === 'AFDF';
+                    const kind = isRadial ? 'Radial' : 'Flora';
+                    let text = a.removeAll ? 'Remove all ' + kind.toLowerCase() : kind + ' ' + familyLabel(isRadial ? families.radial : families.flora, a.familyId);
+                    if (a.densityOverride) text += ', density ' + a.densityOverrideDensity.toFixed(2);
+                    return text;
                 }
-                html += '</div>';
+                case 'AENV': return 'Environment ' + familyLabel(families.environments, a.environmentFamilyId);
+                case 'AEXC': return 'Exclude';
+                case 'AROD': return a.points.length + ' points, W=' + a.width.toFixed(1);
+                case 'ARIV': return a.points.length + ' points, W=' + a.width.toFixed(1) + ', depth ' + a.trenchDepth.toFixed(1);
             }
+            return '';
+        }
 
-            html += '</div>';
+        function formatParamLabel(key) {
+            return key.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+        }
+
+        function formatParamValue(key, value) {
+            if (key === 'operation') return operationName(value);
+            if (key === 'featherType') return featherTypeName(value);
+            if (key === 'combinationRule') return combinationRuleName(value);
+            if (Array.isArray(value)) return value.length + ' entries';
+            if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+            if (typeof value === 'number' && !Number.isInteger(value)) return value.toFixed(3);
+            return value === '' ? '-' : String(value);
+        }
+
+        // Generic key/value rows for a decoded parameter object
+        function renderParamRows(params) {
+            let html = '';
+            Object.keys(params).forEach(key => {
+                if (key === 'tag' || key === 'truncated') return;
+                html += '<div class="node-details-row"><span class="node-details-label">' + formatParamLabel(key) + ':</span>';
+                html += '<span>' + escapeHtml(formatParamValue(key, params[key])) + '</span></div>';
+            });
+            if (params.truncated) {
+                html += '<div style="color:#f59e0b">Payload shorter than expected - values may be incomplete</div>';
+            }
             return html;
         }
 
-        function escapeHtml(str) {
-            return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        // Show affector/filter parameters in the bottom info panel
+        function showLayerItemInfo(node) {
+            const content = document.getElementById('trnInfoContent');
+            if (!content) return;
+            let html = '<div style="font-weight:bold;margin-bottom:8px;">' + escapeHtml(node.name) + '</div>';
+            html += '<div class="info-row"><span class="info-label">' + (node.affector ? 'Effect' : 'Passes') + ':</span><span class="info-value">' + escapeHtml(describeLayerItem(node)) + '</span></div>';
+            html += renderParamRows(node.affector || node.filter);
+            if (node.affector && node.affector.points && node.affector.points.length >= 2) {
+                // Roads and rivers carry their own centerline
+                html += '<div style="margin-top:8px"><button class="zoom-btn" onclick="showNodeProfile(\\'' + node.id + '\\')">⛰ Height Profile</button></div>';
+            }
+            content.innerHTML = html;
+        }
+
+        // Show MFRC settings in the bottom info panel with a shortcut to the preview
+        function showFractalInfo(node, title) {
+            const content = document.getElementById('trnInfoContent');
+            if (!content) return;
+            let html = '<div style="font-weight:bold;margin-bottom:8px;">' + escapeHtml(title) + '</div>';
+            html += renderParamRows(node.fractal);
+            html += '<button id="openFractalPreview" style="margin-top:8px">Preview Noise</button>';
+            content.innerHTML = html;
+            document.getElementById('openFractalPreview').addEventListener('click', () => {
+                document.querySelector('[data-tab="familiesView"]').click();
+                openFractalPreview(title, node.fractal);
+            });
         }
 
         window.toggleNode = function(nodeId) {
@@ -3341,14 +6467,55 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                     // Re-render map to show changes
                     render();
                 }
+            } else if (message.type === 'selectBoundary') {
+                const index = boundaries.findIndex(b => b.offset === message.offset);
+                if (index >= 0) {
+                    showTRNBoundaryInfo(boundaries[index], index);
+                    render();
+                }
             } else if (message.type === 'documentChanged') {
-                // Full refresh of boundaries
-                for (let i = 0; i < message.boundaries.length; i++) {
-                    Object.assign(boundaries[i], message.boundaries[i]);
+                if (message.boundaries.length !== boundaries.length) {
+                    // Boundaries were added or removed; indexes no longer line up
+                    boundaries.splice(0, boundaries.length, ...message.boundaries);
+                    queryResults = [];
+                    selectedBoundaryIndex = -1;
+                    vertexEditorIndex = -1;
+                    document.getElementById('trnInfoContent').innerHTML = '<div class="info-placeholder">Click a boundary on the map</div>';
+                } else {
+                    // Full refresh of boundaries
+                    for (let i = 0; i < message.boundaries.length; i++) {
+                        Object.assign(boundaries[i], message.boundaries[i]);
+                    }
+                }
+                Object.assign(mapInfo, message.mapInfo);
+                populateMapInfo();
+                Object.keys(boundaryLayerMap).forEach(offset => delete boundaryLayerMap[offset]);
+                Object.assign(boundaryLayerMap, message.boundaryLayerMap);
+                const layersChanged = message.layers.length !== layerHierarchy.length ||
+                    message.layers.some((l, i) => layerHierarchy[i].id !== l.id || layerHierarchy[i].name !== l.name || layerHierarchy[i].boundaryCount !== l.boundaryCount);
+                if (layersChanged) {
+                    carryLayerState(message.layers);
                 }
+                // Offsets move with any structural edit
+                layerHierarchy.splice(0, layerHierarchy.length, ...message.layers);
+                if (layersChanged) {
+                    initLayerList();
+                }
+                if (message.structureVersion !== structureVersion) {
+                    // Tree node offsets are stale; reload it if it was loaded
+                    structureVersion = message.structureVersion;
+                    if (treeData && !treeLoading) {
+                        treeLoading = true;
+                        vscode.postMessage({ type: 'requestTree' });
+                    }
+                }
+                // Computed overlays depend on boundary geometry
+                clearOverlayTiles();
                 render();
-                // Refresh property panel if open
-                if (selectedBoundaryIndex >= 0) {
+                // Refresh property panel (or its vertex table) if open
+                if (selectedBoundaryIndex >= 0 && selectedBoundaryIndex === vertexEditorIndex) {
+                    showVertexEditor(selectedBoundaryIndex);
+                } else if (selectedBoundaryIndex >= 0) {
                     showPropertyPanel(selectedBoundaryIndex);
                 }
             }
@@ -3364,6 +6531,15 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             return null;
         }
 
+        function findParentNode(node, id) {
+            for (const child of node.children || []) {
+                if (child.id === id) return node;
+                const found = findParentNode(child, id);
+                if (found) return found;
+            }
+            return null;
+        }
+
         // Override selectNode to also show property panel for boundaries
         const originalSelectNode = window.selectNode;
         window.selectNode = function(nodeId) {
@@ -3377,6 +6553,12 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 if (boundaryIndex >= 0) {
                     showPropertyPanel(boundaryIndex);
                 }
+            } else if (node && (node.affector || node.filter)) {
+                showLayerItemInfo(node);
+            } else if (node && node.fractal) {
+                // Title the preview after the owning MFAM when it has a name
+                const family = findParentNode(treeData.root, nodeId);
+                showFractalInfo(node, family && family.data && family.data.name ? family.name : node.name);
             }
         };
 
@@ -3390,50 +6572,241 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
                 if (el) el.textContent = value;
             };
 
+            // Header field: an input in the working folder, text otherwise
+            const showField = (id, field, kind, text) => {
+                if (isEditable) {
+                    setInfoInput(id, field, kind);
+                } else {
+                    setInfo(id, text !== undefined ? text : mapInfo[field]);
+                }
+            };
+
             // Map Dimensions
-            setInfo('infoMapSize', mapInfo.mapSize + ' meters');
+            showField('infoTerrainFile', 'terrainFile', 'text', mapInfo.terrainFile || 'N/A');
+            showField('infoMapSize', 'mapSize', 'number', mapInfo.mapSize + ' meters');
             setInfo('infoBounds', mapInfo.mapBoundsMin + ' to ' + mapInfo.mapBoundsMax);
-            setInfo('infoChunkWidth', mapInfo.chunkWidth);
-            setInfo('infoTilesPerChunk', mapInfo.tilesPerChunk);
+            showField('infoChunkWidth', 'chunkWidth', 'number');
+            showField('infoTilesPerChunk', 'tilesPerChunk', 'number');
 
             // Water Settings
-            setInfo('infoUseWater', mapInfo.useGlobalWaterTable ? 'Yes' : 'No');
-            setInfo('infoWaterHeight', mapInfo.globalWaterTableHeight);
-            setInfo('infoWaterShaderSize', mapInfo.globalWaterTableShaderSize);
-            setInfo('infoWaterShader', mapInfo.waterShaderName || 'N/A');
-
-            // Flora Collidable
-            setInfo('infoFCMinDist', mapInfo.floraCollidableMinDistance);
-            setInfo('infoFCMaxDist', mapInfo.floraCollidableMaxDistance);
-            setInfo('infoFCTileSize', mapInfo.floraCollidableTileSize);
-            setInfo('infoFCTileBorder', mapInfo.floraCollidableTileBorder);
-            setInfo('infoFCSeed', mapInfo.floraCollidableSeed);
-
-            // Flora Non-Collidable
-            setInfo('infoFNCMinDist', mapInfo.floraNonCollidableMinDistance);
-            setInfo('infoFNCMaxDist', mapInfo.floraNonCollidableMaxDistance);
-            setInfo('infoFNCTileSize', mapInfo.floraNonCollidableTileSize);
-            setInfo('infoFNCTileBorder', mapInfo.floraNonCollidableTileBorder);
-            setInfo('infoFNCSeed', mapInfo.floraNonCollidableSeed);
-
-            // Radial Near
-            setInfo('infoRNMinDist', mapInfo.radialNearMinDistance);
-            setInfo('infoRNMaxDist', mapInfo.radialNearMaxDistance);
-            setInfo('infoRNTileSize', mapInfo.radialNearTileSize);
-            setInfo('infoRNTileBorder', mapInfo.radialNearTileBorder);
-            setInfo('infoRNSeed', mapInfo.radialNearSeed);
-
-            // Radial Far
-            setInfo('infoRFMinDist', mapInfo.radialFarMinDistance);
-            setInfo('infoRFMaxDist', mapInfo.radialFarMaxDistance);
-            setInfo('infoRFTileSize', mapInfo.radialFarTileSize);
-            setInfo('infoRFTileBorder', mapInfo.radialFarTileBorder);
-            setInfo('infoRFSeed', mapInfo.radialFarSeed);
+            showField('infoUseWater', 'useGlobalWaterTable', 'checkbox', mapInfo.useGlobalWaterTable ? 'Yes' : 'No');
+            showField('infoWaterHeight', 'globalWaterTableHeight', 'number');
+            showField('infoWaterShaderSize', 'globalWaterTableShaderSize', 'number');
+            showField('infoWaterShader', 'waterShaderName', 'text', mapInfo.waterShaderName || 'N/A');
+
+            // Flora and radial flora groups share one layout
+            [['FC', 'floraCollidable'], ['FNC', 'floraNonCollidable'], ['RN', 'radialNear'], ['RF', 'radialFar']].forEach(([id, prefix]) => {
+                showField('info' + id + 'MinDist', prefix + 'MinDistance', 'number');
+                showField('info' + id + 'MaxDist', prefix + 'MaxDistance', 'number');
+                showField('info' + id + 'TileSize', prefix + 'TileSize', 'number');
+                showField('info' + id + 'TileBorder', prefix + 'TileBorder', 'number');
+                showField('info' + id + 'Seed', prefix + 'Seed', 'number');
+            });
 
             // Environment
-            setInfo('infoTimeCycle', mapInfo.timeCycle || '-');
+            showField('infoTimeCycle', 'timeCycle', 'number', mapInfo.timeCycle || '-');
+        }
+
+        // Header field as an input that writes back to the file (working folder only)
+        function setInfoInput(id, field, kind) {
+            const el = document.getElementById(id);
+            if (!el) return;
+            const input = document.createElement('input');
+            input.type = kind;
+            input.className = kind === 'checkbox' ? '' : 'info-input';
+            if (kind === 'checkbox') {
+                input.checked = !!mapInfo[field];
+            } else {
+                input.value = mapInfo[field];
+                if (kind === 'number') input.step = 'any';
+            }
+            input.addEventListener('change', () => {
+                vscode.postMessage({ type: 'editMapInfo', field, value: kind === 'checkbox' ? input.checked : input.value });
+            });
+            el.replaceChildren(input);
+        }
+
+        // === FAMILIES VIEW ===
+        function familyColorCss(color) {
+            return 'rgb(' + color.r + ',' + color.g + ',' + color.b + ')';
+        }
+
+        function renderFamilyCard(family, meta, children, onClick) {
+            let html = '<div class="family-card' + (onClick ? ' clickable" onclick="' + onClick : '') + '">';
+            html += '<div class="family-header">';
+            if (family.color) {
+                html += '<span class="family-swatch" style="background:' + familyColorCss(family.color) + '"></span>';
+            }
+            html += '<span>' + escapeHtml(family.name || '(unnamed)') + '</span>';
+            html += '<span class="family-meta">#' + family.id + (meta ? ' | ' + meta : '') + '</span>';
+            html += '</div>';
+            if (children && children.length > 0) {
+                const totalWeight = children.reduce((sum, c) => sum + c.weight, 0) || 1;
+                html += '<div class="family-children">';
+                children.forEach(c => {
+                    html += '<div class="family-child"><span>' + escapeHtml(c.name) + '</span>';
+                    html += '<span class="family-child-weight">' + (c.weight / totalWeight * 100).toFixed(0) + '%</span></div>';
+                });
+                html += '</div>';
+            }
+            html += '</div>';
+            return html;
+        }
+
+        function renderFamilies() {
+            const container = document.getElementById('familyGroups');
+            const query = document.getElementById('familySearch').value.toLowerCase();
+            const matches = f => !query || f.name.toLowerCase().includes(query) ||
+                (f.children || []).some(c => c.name.toLowerCase().includes(query));
+
+            const groups = [
+                { title: 'Shader Families (SGRP)', list: families.shaders,
+                  meta: f => 'size ' + f.shaderSize.toFixed(1) + ', clamp ' + f.featherClamp.toFixed(2) + (f.surfaceProperties ? ', ' + escapeHtml(f.surfaceProperties) : '') },
+                { title: 'Flora Families (FGRP)', list: families.flora,
+                  meta: f => 'density ' + f.density.toFixed(2) + (f.floats ? ', floats' : '') },
+                { title: 'Radial Families (RGRP)', list: families.radial,
+                  meta: f => 'density ' + f.density.toFixed(2) },
+                { title: 'Environment Families (EGRP)', list: families.environments,
+                  meta: f => 'clamp ' + f.featherClamp.toFixed(2) },
+                { title: 'Fractal Families (MGRP)', list: families.fractals,
+                  meta: f => describeFractal(f.settings),
+                  onClick: f => 'previewFractalFamily(' + f.id + ')' }
+            ];
+
+            let html = '';
+            groups.forEach(group => {
+                const shown = group.list.filter(matches);
+                html += '<div class="family-group"><h3>' + group.title + ' - ' + shown.length + '</h3>';
+                if (shown.length === 0) {
+                    html += '<div style="opacity:0.6;padding:4px">None</div>';
+                }
+                shown.forEach(f => { html += renderFamilyCard(f, group.meta(f), f.children, group.onClick && group.onClick(f)); });
+                html += '</div>';
+            });
+            container.innerHTML = html;
+        }
+
+        document.getElementById('familySearch').addEventListener('input', renderFamilies);
+
+        // === FRACTAL PREVIEW ===
+        const combinationRuleNames = ${JSON.stringify(COMBINATION_RULE_NAMES)};
+        let fractalPreview = null;  // { title, original, settings }
+        let fractalPreviewRequestId = 0;
+        let fractalPreviewTimer = null;
+
+        function combinationRuleName(rule) {
+            return combinationRuleNames[rule] || ('Rule ' + rule);
+        }
+
+        function describeFractal(settings) {
+            return 'seed ' + settings.seed + ', ' + settings.octaves + ' oct, ' + combinationRuleName(settings.combinationRule) +
+                ', freq ' + settings.freqX.toFixed(4) + (settings.freqZ !== settings.freqX ? '/' + settings.freqZ.toFixed(4) : '');
+        }
+
+        document.querySelector('[data-fractal="combinationRule"]').innerHTML = combinationRuleNames
+            .map((name, i) => '<option value="' + i + '">' + i + ' - ' + name + '</option>').join('');
+
+        window.previewFractalFamily = function(familyId) {
+            const family = families.fractals.find(f => f.id === familyId);
+            if (family) {
+                openFractalPreview(family.name + ' (#' + family.id + ')', family.settings);
+            }
+        };
+
+        function openFractalPreview(title, settings) {
+            fractalPreview = { title, original: Object.assign({}, settings), settings: Object.assign({}, settings) };
+            document.getElementById('fractalPreviewTitle').textContent = 'Fractal Preview - ' + title;
+            document.getElementById('fractalPreviewPanel').style.display = 'block';
+            syncFractalControls();
+            requestFractalPreview();
+        }
+
+        function syncFractalControls() {
+            document.querySelectorAll('[data-fractal]').forEach(input => {
+                const value = fractalPreview.settings[input.dataset.fractal];
+                if (input.type === 'checkbox') {
+                    input.checked = !!value;
+                } else {
+                    input.value = value;
+                }
+            });
+        }
+
+        function requestFractalPreview() {
+            if (!fractalPreview) return;
+            const canvas = document.getElementById('fractalPreviewCanvas');
+            const extent = parseFloat(document.getElementById('fractalPreviewExtent').value) || 2048;
+            document.getElementById('fractalPreviewStats').textContent = 'Rendering...';
+            vscode.postMessage({
+                type: 'requestFractalPreview',
+                requestId: ++fractalPreviewRequestId,
+                settings: fractalPreview.settings,
+                centerX: 0,
+                centerZ: 0,
+                extent,
+                size: canvas.width
+            });
+        }
+
+        function paintFractalPreview(tile) {
+            const canvas = document.getElementById('fractalPreviewCanvas');
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return;
+            canvas.width = tile.size;
+            canvas.height = tile.size;
+            const image = ctx.createImageData(tile.size, tile.size);
+            for (let i = 0; i < tile.values.length; i++) {
+                const v = tile.values[i];
+                image.data[i * 4] = v;
+                image.data[i * 4 + 1] = v;
+                image.data[i * 4 + 2] = v;
+                image.data[i * 4 + 3] = 255;
+            }
+            ctx.putImageData(image, 0, 0);
         }
 
+        // Re-render shortly after the last edit so typing doesn't flood the host
+        document.querySelectorAll('[data-fractal], #fractalPreviewExtent').forEach(input => {
+            input.addEventListener('input', () => {
+                if (!fractalPreview) return;
+                const key = input.dataset.fractal;
+                if (key) {
+                    if (input.type === 'checkbox') {
+                        fractalPreview.settings[key] = input.checked;
+                    } else {
+                        const value = parseFloat(input.value);
+                        if (isNaN(value)) return;
+                        fractalPreview.settings[key] = value;
+                    }
+                }
+                clearTimeout(fractalPreviewTimer);
+                fractalPreviewTimer = setTimeout(requestFractalPreview, 150);
+            });
+        });
+
+        document.getElementById('fractalPreviewReset').addEventListener('click', () => {
+            if (!fractalPreview) return;
+            fractalPreview.settings = Object.assign({}, fractalPreview.original);
+            syncFractalControls();
+            requestFractalPreview();
+        });
+
+        document.getElementById('fractalPreviewClose').addEventListener('click', () => {
+            fractalPreview = null;
+            document.getElementById('fractalPreviewPanel').style.display = 'none';
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'fractalPreview' && message.requestId === fractalPreviewRequestId) {
+                paintFractalPreview(message.tile);
+                const extent = parseFloat(document.getElementById('fractalPreviewExtent').value) || 2048;
+                document.getElementById('fractalPreviewStats').textContent =
+                    'range ' + message.tile.min.toFixed(3) + ' - ' + message.tile.max.toFixed(3) +
+                    ' | ' + extent + 'm x ' + extent + 'm';
+            }
+        });
+
         // Init with error handling
         try {
             console.log('TRN Viewer: Starting initialization...');
@@ -3445,6 +6818,7 @@ export class TRNEditorProvider implements vscode.CustomEditorProvider<TRNDocumen
             console.log('TRN Viewer: Tree view initialized');
             populateMapInfo();
             console.log('TRN Viewer: Map info populated');
+            renderFamilies();
             renderWSPathTree();
             console.log('TRN Viewer: WS path tree rendered');
             console.log('TRN Viewer: Initialization complete');
@@ -3515,9 +6889,12 @@ class TRNDocument implements vscode.CustomDocument {
     private _boundaries!: Boundary[];  // Assigned in parseData() called from constructor
     private _tree!: TRNTree;           // Assigned in parseData() called from constructor
     private _mapInfo!: MapInfo;        // Assigned in parseData() called from constructor
+    private _families!: TRNFamilies;   // Assigned in parseData() called from constructor
+    private _heightEvaluator: TerrainHeightEvaluator | null = null;  // Built on first use
     private _wsData: WSDocument | null = null;
     private _isDirty: boolean = false;
     private _isEditable: boolean = false;
+    private _structureVersion: number = 0;
 
     private readonly _onDidChange = new vscode.EventEmitter<void>();
     public readonly onDidChange = this._onDidChange.event;
@@ -3525,8 +6902,18 @@ class TRNDocument implements vscode.CustomDocument {
     public get boundaries(): Boundary[] { return this._boundaries; }
     public get tree(): TRNTree { return this._tree; }
     public get mapInfo(): MapInfo { return this._mapInfo; }
+    public get families(): TRNFamilies { return this._families; }
+
+    public get heightEvaluator(): TerrainHeightEvaluator {
+        if (!this._heightEvaluator) {
+            const layers = buildHeightLayers(this._data, this._tree, this._boundaries);
+            this._heightEvaluator = new TerrainHeightEvaluator(layers, this._families);
+        }
+        return this._heightEvaluator;
+    }
     public get wsData(): WSDocument | null { return this._wsData; }
     public get isEditable(): boolean { return this._isEditable; }
+    public get structureVersion(): number { return this._structureVersion; }
 
     constructor(
         public readonly uri: vscode.Uri,
@@ -3545,9 +6932,12 @@ class TRNDocument implements vscode.CustomDocument {
         const doc = parser.parse();
         this._boundaries = doc.boundaries;
         this._mapInfo = doc.mapInfo;
+        this._families = doc.families;
 
         const treeParser = new TRNTreeParser(this._data);
         this._tree = treeParser.parse();
+        this._heightEvaluator = null;
+        this._structureVersion++;
     }
 
     public getData(): Uint8Array {
@@ -3570,6 +6960,15 @@ class TRNDocument implements vscode.CustomDocument {
      * Returns true if successful
      */
     public applyEdit(boundaryIndex: number, field: string, value: number): boolean {
+        return this.applyEdits(boundaryIndex, { [field]: value });
+    }
+
+    /**
+     * Apply several property edits to one boundary as a single change
+     * (e.g. both center coordinates of a dragged circle)
+     * Writes nothing unless every field is known; returns true if successful
+     */
+    public applyEdits(boundaryIndex: number, values: Record<string, number>): boolean {
         const boundary = this._boundaries[boundaryIndex];
         if (!boundary) return false;
 
@@ -3577,21 +6976,389 @@ class TRNDocument implements vscode.CustomDocument {
         const dataOffset = this.findDataOffset(boundary);
         if (dataOffset === -1) return false;
 
-        // Calculate field offset within DATA chunk and write the value
-        const fieldOffset = this.getFieldOffset(boundary.type, field);
-        if (fieldOffset === -1) return false;
+        // Calculate field offsets within the DATA chunk
+        const fields = Object.keys(values);
+        const fieldOffsets = fields.map(field => this.getFieldOffset(boundary, field));
+        if (fields.length === 0 || fieldOffsets.includes(-1)) return false;
+
+        fields.forEach((field, i) => {
+            // featherType is the one int32 among the editable fields
+            if (field === 'featherType') {
+                this.writeInt32LE(dataOffset + fieldOffsets[i], values[field]);
+            } else {
+                this.writeFloat32LE(dataOffset + fieldOffsets[i], values[field]);
+            }
+            // Update the in-memory boundary
+            (boundary as any)[field] = values[field];
+        });
+        this._isDirty = true;
+        this._onDidChange.fire();
+
+        return true;
+    }
+
+    /**
+     * Replace the vertex list of a polygon or polyline
+     * A new vertex count rewrites `vertexCount` and resizes the DATA chunk
+     * Returns true if successful
+     */
+    public applyVertexEdit(boundaryIndex: number, vertices: Point2D[]): boolean {
+        const boundary = this._boundaries[boundaryIndex];
+        if (!boundary || (boundary.type !== 'polygon' && boundary.type !== 'polyline')) return false;
+
+        const dataOffset = this.findDataOffset(boundary);
+        if (dataOffset === -1) return false;
+        const count = boundary.vertices.length;
+
+        if (vertices.length === count) {
+            vertices.forEach((v, i) => {
+                this.writeFloat32LE(dataOffset + 4 + i * 8, v.x);
+                this.writeFloat32LE(dataOffset + 8 + i * 8, v.z);
+            });
+            boundary.vertices = vertices.map(v => ({ x: v.x, z: v.z }));
+            this._isDirty = true;
+            this._onDidChange.fire();
+            return true;
+        }
+
+        return this.applyStructuralEdit(root => {
+            const found = findNodeAtOffset(root, dataOffset - 8);
+            if (!found || found.node.kind !== 'chunk') return false;
+
+            // Keep the feather/width tail after the vertices
+            const tail = found.node.data.subarray(4 + count * 8);
+            const data = new Uint8Array(4 + vertices.length * 8 + tail.length);
+            const view = new DataView(data.buffer);
+            view.setUint32(0, vertices.length, true);
+            vertices.forEach((v, i) => {
+                view.setFloat32(4 + i * 8, v.x, true);
+                view.setFloat32(8 + i * 8, v.z, true);
+            });
+            data.set(tail, 4 + vertices.length * 8);
+            found.node.data = data;
+            return true;
+        });
+    }
 
-        const writeOffset = dataOffset + fieldOffset;
-        this.writeFloat32LE(writeOffset, value);
+    /**
+     * Write a map header field back to the PTAT header DATA chunk
+     * Returns true if successful
+     */
+    public applyMapInfoEdit(field: keyof MapInfo, value: number | string | boolean): boolean {
+        const header = this.findMapInfoData();
+        const index = MAP_INFO_LAYOUT.findIndex(e => e.field === field);
+        if (!header || index === -1) return false;
+
+        // Walk the fields before this one; strings have no fixed size
+        let pos = header.start;
+        for (let i = 0; i < index; i++) {
+            const entry = MAP_INFO_LAYOUT[i];
+            pos += entry.type === 'string' ? this.stringLength(pos, entry.maxLength!) : 4;
+        }
+        const entry = MAP_INFO_LAYOUT[index];
+        if (pos + (entry.type === 'string' ? 0 : 4) > header.start + header.size) return false;
+
+        switch (entry.type) {
+            case 'float':
+                this.writeFloat32LE(pos, value as number);
+                break;
+            case 'int':
+                this.writeUint32LE(pos, (value as number) >>> 0);
+                break;
+            case 'bool':
+                this.writeUint32LE(pos, value ? 1 : 0);
+                break;
+            case 'string': {
+                const text = String(value);
+                const bytes = new Uint8Array(text.length + 1);
+                for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xFF;
+                const start = pos - header.start;
+                const removed = this.stringLength(pos, entry.maxLength!);
+                // The header changes length, so rebuild the file around it
+                return this.applyStructuralEdit(root => {
+                    const found = findNodeAtOffset(root, header.chunk);
+                    if (!found || found.node.kind !== 'chunk') return false;
+                    const old = found.node.data;
+                    const data = new Uint8Array(old.length - removed + bytes.length);
+                    data.set(old.subarray(0, start), 0);
+                    data.set(bytes, start);
+                    data.set(old.subarray(start + removed), start + bytes.length);
+                    found.node.data = data;
+                    return true;
+                });
+            }
+        }
 
-        // Update the in-memory boundary
-        (boundary as any)[field] = value;
+        (this._mapInfo as any)[field] = value;
+        if (field === 'mapSize') {
+            this._mapInfo.mapBoundsMin = -this._mapInfo.mapSize / 2;
+            this._mapInfo.mapBoundsMax = this._mapInfo.mapSize / 2;
+        }
         this._isDirty = true;
         this._onDidChange.fire();
+        return true;
+    }
+
+    /**
+     * Rename a layer or boundary by rewriting the name in its IHDR DATA
+     * (uint32 id + null-terminated string); the FORMs around it resize
+     * Returns false when the item has no header or already has the name
+     */
+    public renameItem(formOffset: number, name: string): boolean {
+        return this.applyStructuralEdit(root => {
+            const found = findNodeAtOffset(root, formOffset);
+            const header = found && found.node.kind === 'form' ? findItemHeader(found.node) : null;
+            if (!header || header.data.length < 4 || this.readHeaderName(header) === name) return false;
+            this.writeHeaderName(header, name);
+            return true;
+        });
+    }
+
+    /**
+     * Insert a new boundary into a layer, after its other boundaries
+     * Returns the new boundary's FORM offset, or -1 when `layerOffset` is not a layer
+     */
+    public addBoundary(layerOffset: number, boundary: Boundary): number {
+        return this.insertItem(root => {
+            const found = findNodeAtOffset(root, layerOffset);
+            const contents = found && found.node.kind === 'form' && found.node.type === 'LAYR' ? layerContents(found.node) : null;
+            if (!contents) return null;
+            const form = createBoundaryForm(boundary);
+            contents.children.splice(boundaryInsertIndex(contents), 0, form);
+            return form;
+        });
+    }
+
+    /**
+     * Append an empty layer to a layer (as a sub-layer) or to LYRS
+     * Returns the new layer's FORM offset, or -1
+     */
+    public addLayer(parentOffset: number, name: string): number {
+        return this.insertItem(root => {
+            const found = findNodeAtOffset(root, parentOffset);
+            const contents = found && found.node.kind === 'form' ? layerContents(found.node) : null;
+            if (!contents) return null;
+            const form = createLayerForm(name);
+            contents.children.push(form);
+            return form;
+        });
+    }
+
+    /**
+     * Move a layer or boundary next to another of its kind (`before`/`after`)
+     * or into a layer or LYRS (`inside`, as its last item; boundaries go after
+     * the layer's other boundaries). Boundaries never go directly into LYRS.
+     * Returns the item's new FORM offset, or -1
+     */
+    public moveItem(itemOffset: number, targetOffset: number, position: 'before' | 'after' | 'inside'): number {
+        return this.insertItem(root => {
+            const item = findNodeAtOffset(root, itemOffset);
+            const target = findNodeAtOffset(root, targetOffset);
+            if (!item || !item.parent || item.node.kind !== 'form' || !target || target.node.kind !== 'form') return null;
+            const form = item.node;
+            const isBoundary = BOUNDARY_TAGS.includes(form.type);
+            if (form.type !== 'LAYR' && !isBoundary) return null;
+            // Not into itself or anything inside it
+            if (findNodeAtOffset(form, targetOffset)) return null;
+
+            let container: IffForm | null;
+            if (position === 'inside') {
+                container = layerContents(target.node);
+            } else {
+                // Layers sit next to layers and boundaries next to boundaries
+                const targetIsBoundary = BOUNDARY_TAGS.includes(target.node.type);
+                if (target.node.type !== 'LAYR' && !targetIsBoundary) return null;
+                if (isBoundary !== targetIsBoundary) return null;
+                container = target.parent;
+            }
+            if (!container || !this.isItemContainer(root, container)) return null;
+            if (isBoundary && container.type === 'LYRS') return null;
+
+            item.parent.children.splice(item.parent.children.indexOf(form), 1);
+            let index: number;
+            if (position === 'inside') {
+                index = isBoundary ? boundaryInsertIndex(container) : container.children.length;
+            } else {
+                index = container.children.indexOf(target.node) + (position === 'after' ? 1 : 0);
+            }
+            container.children.splice(index, 0, form);
+            return form;
+        });
+    }
 
+    // LYRS, or a layer's contents (the version FORM directly under a LAYR)
+    private isItemContainer(root: IffForm, container: IffForm): boolean {
+        if (container.type === 'LYRS') return true;
+        const found = findNodeAtOffset(root, container.offset);
+        return !!found && found.node === container && !!found.parent && layerContents(found.parent) === container;
+    }
+
+    /**
+     * Move boundaries into a layer, after its own boundaries and in file order.
+     * Returns their new FORM offsets, or null if none moved
+     */
+    public moveBoundaries(boundaryOffsets: number[], layerOffset: number): number[] | null {
+        let moved: IffForm[] = [];
+        let offsets: number[] | null = null;
+        this.applyStructuralEdit(root => {
+            const layer = findNodeAtOffset(root, layerOffset);
+            const contents = layer && layer.node.kind === 'form' && layer.node.type === 'LAYR' ? layerContents(layer.node) : null;
+            if (!contents) return false;
+
+            const sorted = [...new Set(boundaryOffsets)].sort((a, b) => a - b);
+            const found = sorted.map(offset => findNodeAtOffset(root, offset));
+            moved = found
+                .filter(f => f && f.parent && f.parent !== contents && f.node.kind === 'form' && BOUNDARY_TAGS.includes(f.node.type))
+                .map(f => {
+                    f!.parent!.children.splice(f!.parent!.children.indexOf(f!.node), 1);
+                    return f!.node as IffForm;
+                });
+            if (moved.length === 0) return false;
+
+            contents.children.splice(boundaryInsertIndex(contents), 0, ...moved);
+            offsets = moved.map(form => serializedOffset(root, form));
+            return true;
+        });
+        return offsets;
+    }
+
+    /**
+     * Detached copies of boundaries and layers (with everything in them), in
+     * file order. Items inside another copied layer come along with it.
+     */
+    public copyItems(itemOffsets: number[]): IffForm[] {
+        const root = new IffTreeParser(this._data).parse();
+        const forms = itemOffsets
+            .map(offset => findNodeAtOffset(root, offset))
+            .filter(found => found && found.node.kind === 'form' && (found.node.type === 'LAYR' || BOUNDARY_TAGS.includes(found.node.type)))
+            .map(found => found!.node as IffForm);
+        return forms
+            .filter(form => !forms.some(other => other !== form && findNodeAtOffset(other, form.offset)))
+            .sort((a, b) => a.offset - b.offset)
+            .map(cloneNode);
+    }
+
+    /**
+     * Paste copied items into the layer or LYRS at `targetOffset`, shifted by (dx, dz)
+     * Returns their FORM offsets, or null if they can't go there
+     */
+    public pasteItems(forms: IffForm[], targetOffset: number, dx = 0, dz = 0): number[] | null {
+        let offsets: number[] | null = null;
+        this.applyStructuralEdit(root => {
+            const target = findNodeAtOffset(root, targetOffset);
+            const contents = target && target.node.kind === 'form' ? layerContents(target.node) : null;
+            if (!contents) return false;
+
+            const items = insertCopies(contents, forms, dx, dz);
+            if (!items) return false;
+            offsets = items.map(form => serializedOffset(root, form));
+            return true;
+        });
+        return offsets;
+    }
+
+    /**
+     * Copy a layer item in place, right after the original, renamed "<name> Copy"
+     * Returns the copy's FORM offset, or -1
+     */
+    public duplicateItem(itemOffset: number): number {
+        return this.insertItem(root => {
+            const found = findNodeAtOffset(root, itemOffset);
+            if (!found || !found.parent || found.node.kind !== 'form') return null;
+            const copy = cloneNode(found.node);
+            const header = findItemHeader(copy);
+            if (header) {
+                const name = this.readHeaderName(header);
+                this.writeHeaderName(header, (name + ' Copy').slice(0, MAX_ITEM_NAME_LENGTH));
+            }
+            found.parent.children.splice(found.parent.children.indexOf(found.node) + 1, 0, copy);
+            return copy;
+        });
+    }
+
+    /**
+     * Remove a layer item (and everything inside it)
+     */
+    public deleteItem(itemOffset: number): boolean {
+        return this.applyStructuralEdit(root => {
+            const found = findNodeAtOffset(root, itemOffset);
+            if (!found || !found.parent || found.node.kind !== 'form') return false;
+            found.parent.children.splice(found.parent.children.indexOf(found.node), 1);
+            return true;
+        });
+    }
+
+    // Structural edit that adds one FORM; returns where it ends up, or -1
+    private insertItem(insert: (root: IffForm) => IffForm | null): number {
+        let offset = -1;
+        this.applyStructuralEdit(root => {
+            const form = insert(root);
+            if (form) offset = serializedOffset(root, form);
+            return form !== null;
+        });
+        return offset;
+    }
+
+    private readHeaderName(header: IffChunk): string {
+        let end = header.data.indexOf(0, 4);
+        if (end === -1) end = header.data.length;
+        return String.fromCharCode(...header.data.subarray(4, end));
+    }
+
+    // Keeps the id and anything stored after the terminator
+    private writeHeaderName(header: IffChunk, name: string): void {
+        const old = header.data;
+        let end = old.indexOf(0, 4);
+        if (end === -1) end = old.length;
+        const rest = old.subarray(Math.min(end + 1, old.length));
+        const data = new Uint8Array(4 + name.length + 1 + rest.length);
+        data.set(old.subarray(0, 4), 0);
+        for (let i = 0; i < name.length; i++) data[4 + i] = name.charCodeAt(i) & 0xFF;
+        data.set(rest, 4 + name.length + 1);
+        header.data = data;
+    }
+
+    /**
+     * Rebuild the file from its chunk tree after `edit` changes it, so any
+     * chunk can change length. `edit` returns false to leave the file as is.
+     * Offsets move, so everything is parsed again.
+     */
+    public applyStructuralEdit(edit: (root: IffForm) => boolean): boolean {
+        const root = new IffTreeParser(this._data).parse();
+        if (!edit(root)) return false;
+        this.replaceData(serializeIff(root));
         return true;
     }
 
+    /**
+     * Swap in whole-file bytes (undo/redo of structural edits)
+     */
+    public replaceData(data: Uint8Array): void {
+        this._data = new Uint8Array(data);
+        this.parseData();
+        this._isDirty = true;
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Locate the header DATA chunk: FORM PTAT > FORM 00xx > DATA
+     */
+    private findMapInfoData(): { start: number; size: number; chunk: number } | null {
+        if (this._data.length < 32 ||
+            this.readString(0, 4) !== 'FORM' || this.readString(8, 4) !== 'PTAT' ||
+            this.readString(12, 4) !== 'FORM' || this.readString(24, 4) !== 'DATA') {
+            return null;
+        }
+        return { start: 32, size: this.readUint32BE(28) >>> 0, chunk: 24 };
+    }
+
+    // Bytes a null-terminated header string occupies, as read by the parser
+    private stringLength(offset: number, maxLength: number): number {
+        let length = 0;
+        while (length < maxLength && offset + length < this._data.length && this._data[offset + length] !== 0) length++;
+        return length < maxLength && offset + length < this._data.length ? length + 1 : length;
+    }
+
     /**
      * Find the DATA chunk offset for a boundary
      * The boundary.offset points to the FORM, we need to find the DATA inside
@@ -3623,8 +7390,8 @@ class TRNDocument implements vscode.CustomDocument {
             if (tag === 'DATA') {
                 // Found it! Return offset to the data content (after tag + size)
                 return pos + 8;
-            } else if (tag === 'FORM') {
-                // Recurse into nested FORM
+            } else if (tag === 'FORM' && this.readString(pos + 8, 4) !== 'IHDR') {
+                // Recurse into nested FORM (the IHDR DATA holds the name, not the shape)
                 const result = this.findDataChunkRecursive(pos + 12, pos + 8 + size, boundaryType);
                 if (result !== -1) return result;
             }
@@ -3636,7 +7403,8 @@ class TRNDocument implements vscode.CustomDocument {
     /**
      * Get the offset of a field within the DATA chunk
      */
-    private getFieldOffset(type: string, field: string): number {
+    private getFieldOffset(boundary: Boundary, field: string): number {
+        const type = boundary.type;
         // BCIR DATA: centerX(0), centerZ(4), radius(8), featherType(12), featherAmount(16)
         if (type === 'circle') {
             switch (field) {
@@ -3658,17 +7426,14 @@ class TRNDocument implements vscode.CustomDocument {
                 case 'featherAmount': return 20;
             }
         }
-        // BPOL DATA: vertexCount(0), featherAmount(4), vertices(8+)
-        else if (type === 'polygon') {
-            switch (field) {
-                case 'featherAmount': return 4;
-            }
-        }
-        // BPLN DATA: vertexCount(0), featherAmount(4), width(8), vertices(12+)
-        else if (type === 'polyline') {
+        // BPOL DATA: vertexCount(0), vertices(4+), featherType, featherAmount
+        // BPLN DATA: vertexCount(0), vertices(4+), featherType, featherAmount, width
+        else if (type === 'polygon' || type === 'polyline') {
+            const tail = 4 + boundary.vertices.length * 8;
             switch (field) {
-                case 'featherAmount': return 4;
-                case 'width': return 8;
+                case 'featherType': return tail;
+                case 'featherAmount': return tail + 4;
+                case 'width': return type === 'polyline' ? tail + 8 : -1;
             }
         }
         return -1;
@@ -3699,6 +7464,14 @@ class TRNDocument implements vscode.CustomDocument {
         this._data[offset + 3] = view.getUint8(3);
     }
 
+    private writeUint32LE(offset: number, value: number): void {
+        new DataView(this._data.buffer, this._data.byteOffset).setUint32(offset, value >>> 0, true);
+    }
+
+    private writeInt32LE(offset: number, value: number): void {
+        new DataView(this._data.buffer, this._data.byteOffset).setInt32(offset, value | 0, true);
+    }
+
     dispose(): void {
         this._onDidChange.dispose();
     }
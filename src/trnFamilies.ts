@@ -0,0 +1,274 @@
+/**
+ * TRN Family Group Parser
+ * Parses the shader (SGRP/SFAM), flora (FGRP/FFAM), radial (RGRP/RFAM),
+ * environment (EGRP/EFAM) and fractal (MGRP/MFAM) groups that affectors
+ * and filters reference by family id
+ *
+ * Structure: FORM SGRP > FORM <version> > SFAM chunk per family
+ * (fractal families are FORMs, see trnFractals.ts)
+ */
+
+import { ChunkReader } from './chunkReader';
+import { DEFAULT_FRACTAL_SETTINGS, FractalFamily, decodeFractalSettings } from './trnFractals';
+
+export interface FamilyColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface FamilyChild {
+    name: string;           // Template path (.sht shader or .apt appearance)
+    weight: number;         // Relative selection weight within the family
+}
+
+export interface FloraFamilyChild extends FamilyChild {
+    alignToTerrain: boolean;
+    shouldSway: boolean;
+    displacement: number;
+    period: number;
+}
+
+export interface RadialFamilyChild extends FamilyChild {
+    distance: number;
+    minWidth: number;
+    maxWidth: number;
+    minHeight: number;
+    maxHeight: number;
+    maintainAspectRatio: boolean;
+    alignToTerrain: boolean;
+    createPlus: boolean;
+    shouldSway: boolean;
+    displacement: number;
+    period: number;
+}
+
+export interface ShaderFamily {
+    id: number;
+    name: string;
+    color: FamilyColor;
+    surfaceProperties: string;
+    shaderSize: number;
+    featherClamp: number;
+    children: FamilyChild[];
+}
+
+export interface FloraFamily {
+    id: number;
+    name: string;
+    color: FamilyColor;
+    density: number;
+    floats: boolean;
+    children: FloraFamilyChild[];
+}
+
+export interface RadialFamily {
+    id: number;
+    name: string;
+    color: FamilyColor;
+    density: number;
+    children: RadialFamilyChild[];
+}
+
+export interface EnvironmentFamily {
+    id: number;
+    name: string;
+    color: FamilyColor;
+    featherClamp: number;
+}
+
+export interface TRNFamilies {
+    shaders: ShaderFamily[];
+    flora: FloraFamily[];
+    radial: RadialFamily[];
+    environments: EnvironmentFamily[];
+    fractals: FractalFamily[];
+}
+
+export class TRNFamilyParser {
+    private data: Uint8Array;
+    private families: TRNFamilies = { shaders: [], flora: [], radial: [], environments: [], fractals: [] };
+
+    constructor(data: Uint8Array) {
+        this.data = data;
+    }
+
+    parse(): TRNFamilies {
+        this.families = { shaders: [], flora: [], radial: [], environments: [], fractals: [] };
+        this.walk(0, this.data.length, '');
+        return this.families;
+    }
+
+    /**
+     * Walk the IFF structure; `group` is the enclosing *GRP form type, if any
+     */
+    private walk(start: number, end: number, group: string): void {
+        let pos = start;
+
+        while (pos <= end - 8) {
+            const tag = this.readStringAt(pos, 4);
+            const size = this.readUint32BEAt(pos + 4);
+            const chunkEnd = pos + 8 + size;
+            if (chunkEnd > end) break;
+
+            if (tag === 'FORM') {
+                const formType = this.readStringAt(pos + 8, 4);
+                // LYRS holds no families - skip the bulk of the file
+                if (formType === 'MFAM' && group === 'MGRP') {
+                    this.families.fractals.push(this.readFractalFamily(pos + 12, chunkEnd));
+                } else if (formType !== 'LYRS') {
+                    const isGroup = ['SGRP', 'FGRP', 'RGRP', 'EGRP', 'MGRP'].includes(formType);
+                    this.walk(pos + 12, chunkEnd, isGroup ? formType : group);
+                }
+            } else if (group) {
+                const r = new ChunkReader(this.data, pos + 8, size);
+                if (tag === 'SFAM' && group === 'SGRP') {
+                    this.families.shaders.push(this.readShaderFamily(r));
+                } else if (tag === 'FFAM' && group === 'FGRP') {
+                    this.families.flora.push(this.readFloraFamily(r));
+                } else if (tag === 'RFAM' && group === 'RGRP') {
+                    this.families.radial.push(this.readRadialFamily(r));
+                } else if (tag === 'EFAM' && group === 'EGRP') {
+                    this.families.environments.push(this.readEnvironmentFamily(r));
+                }
+            }
+
+            pos = chunkEnd;
+        }
+    }
+
+    private readShaderFamily(r: ChunkReader): ShaderFamily {
+        const id = r.readInt32();
+        const name = r.readString();
+        const surfaceProperties = r.readString();
+        const color = this.readColor(r);
+        const shaderSize = r.readFloat32();
+        const featherClamp = r.readFloat32();
+        const children = this.readChildren(r, () => ({ name: r.readString(), weight: r.readFloat32() }));
+        return { id, name, color, surfaceProperties, shaderSize, featherClamp, children };
+    }
+
+    private readFloraFamily(r: ChunkReader): FloraFamily {
+        const id = r.readInt32();
+        const name = r.readString();
+        const color = this.readColor(r);
+        const density = r.readFloat32();
+        const floats = r.readBool();
+        const children = this.readChildren(r, () => ({
+            name: r.readString(),
+            weight: r.readFloat32(),
+            alignToTerrain: r.readBool(),
+            shouldSway: r.readBool(),
+            displacement: r.readFloat32(),
+            period: r.readFloat32()
+        }));
+        return { id, name, color, density, floats, children };
+    }
+
+    private readRadialFamily(r: ChunkReader): RadialFamily {
+        const id = r.readInt32();
+        const name = r.readString();
+        const color = this.readColor(r);
+        const density = r.readFloat32();
+        const children = this.readChildren(r, () => ({
+            name: r.readString(),
+            weight: r.readFloat32(),
+            distance: r.readFloat32(),
+            minWidth: r.readFloat32(),
+            maxWidth: r.readFloat32(),
+            minHeight: r.readFloat32(),
+            maxHeight: r.readFloat32(),
+            maintainAspectRatio: r.readBool(),
+            alignToTerrain: r.readBool(),
+            createPlus: r.readBool(),
+            shouldSway: r.readBool(),
+            displacement: r.readFloat32(),
+            period: r.readFloat32()
+        }));
+        return { id, name, color, density, children };
+    }
+
+    private readEnvironmentFamily(r: ChunkReader): EnvironmentFamily {
+        const id = r.readInt32();
+        const name = r.readString();
+        const color = this.readColor(r);
+        const featherClamp = r.readFloat32();
+        return { id, name, color, featherClamp };
+    }
+
+    /**
+     * MFAM content: DATA (id, name) then FORM MFRC > FORM <version> > DATA
+     */
+    private readFractalFamily(start: number, end: number): FractalFamily {
+        const family: FractalFamily = {
+            id: 0,
+            name: '',
+            version: '',
+            settings: { ...DEFAULT_FRACTAL_SETTINGS },
+            truncated: true
+        };
+
+        let pos = start;
+        while (pos <= end - 8) {
+            const tag = this.readStringAt(pos, 4);
+            const size = this.readUint32BEAt(pos + 4);
+            const chunkEnd = pos + 8 + size;
+            if (chunkEnd > end) break;
+
+            if (tag === 'DATA') {
+                const r = new ChunkReader(this.data, pos + 8, size);
+                family.id = r.readInt32();
+                family.name = r.readString();
+            } else if (tag === 'FORM' && this.readStringAt(pos + 8, 4) === 'MFRC') {
+                const version = pos + 12 <= chunkEnd - 12 && this.readStringAt(pos + 12, 4) === 'FORM'
+                    ? this.readStringAt(pos + 20, 4) : '';
+                const dataPos = pos + 24;
+                if (version && dataPos <= chunkEnd - 8 && this.readStringAt(dataPos, 4) === 'DATA') {
+                    const decoded = decodeFractalSettings(this.data, dataPos + 8, this.readUint32BEAt(dataPos + 4));
+                    family.version = version;
+                    family.settings = decoded.settings;
+                    family.truncated = decoded.truncated;
+                }
+            }
+
+            pos = chunkEnd;
+        }
+
+        if (!family.truncated) {
+            delete family.truncated;
+        }
+        return family;
+    }
+
+    private readColor(r: ChunkReader): FamilyColor {
+        return { r: r.readUint8(), g: r.readUint8(), b: r.readUint8() };
+    }
+
+    private readChildren<T>(r: ChunkReader, readChild: () => T): T[] {
+        const count = r.readUint32();
+        const children: T[] = [];
+        for (let i = 0; i < count && r.remaining > 0; i++) {
+            const child = readChild();
+            if (r.overrun) break;
+            children.push(child);
+        }
+        return children;
+    }
+
+    // Reader helpers
+    private readStringAt(pos: number, length: number): string {
+        let str = '';
+        for (let i = 0; i < length && pos + i < this.data.length; i++) {
+            str += String.fromCharCode(this.data[pos + i]);
+        }
+        return str;
+    }
+
+    private readUint32BEAt(pos: number): number {
+        return ((this.data[pos] << 24) |
+                (this.data[pos + 1] << 16) |
+                (this.data[pos + 2] << 8) |
+                this.data[pos + 3]) >>> 0;
+    }
+}
+
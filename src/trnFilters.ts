@@ -0,0 +1,132 @@
+/**
+ * TRN Filter Decoder
+ * Turns the versioned DATA payload of filter FORMs (FHGT, FSLP, FFRA, ...)
+ * into typed parameter objects
+ *
+ * Filters gate a layer by a value range (height, slope, fractal noise, ...),
+ * fading in over featherDistance at either end of the range.
+ */
+
+import { ChunkReader } from './chunkReader';
+
+interface FilterBase {
+    version: string;
+    featherType: number;        // See FEATHER_TYPE_NAMES
+    featherDistance: number;
+    truncated?: boolean;        // Payload was shorter than the decoder expected
+}
+
+export interface FilterHeight extends FilterBase {
+    tag: 'FHGT';
+    minHeight: number;
+    maxHeight: number;
+}
+
+export interface FilterSlope extends FilterBase {
+    tag: 'FSLP';
+    minAngle: number;           // Degrees from horizontal
+    maxAngle: number;
+}
+
+export interface FilterDirection extends FilterBase {
+    tag: 'FDIR';
+    minAngle: number;           // Degrees, facing direction of the slope
+    maxAngle: number;
+}
+
+export interface FilterFractal extends FilterBase {
+    tag: 'FFRA';
+    fractalFamilyId: number;
+    minValue: number;
+    maxValue: number;
+    scale: number;
+}
+
+export interface FilterShader extends FilterBase {
+    tag: 'FSHD';
+    shaderFamilyId: number;
+}
+
+export interface FilterBitmap extends FilterBase {
+    tag: 'FBIT';
+    bitmapId: number;
+    minValue: number;
+    maxValue: number;
+    gain: number;
+}
+
+export type FilterData = FilterHeight | FilterSlope | FilterDirection | FilterFractal | FilterShader | FilterBitmap;
+
+export const FILTER_TAGS = ['FHGT', 'FSLP', 'FDIR', 'FFRA', 'FSHD', 'FBIT'];
+
+export function isFilterTag(tag: string): boolean {
+    return FILTER_TAGS.includes(tag);
+}
+
+/**
+ * Decode a filter payload
+ * `start`/`size` describe the payload chunk content (after tag + size)
+ */
+export function decodeFilter(tag: string, version: string, data: Uint8Array, start: number, size: number): FilterData | null {
+    const r = new ChunkReader(data, start, size);
+    let filter: FilterData;
+
+    switch (tag) {
+        case 'FHGT':
+            filter = {
+                tag, version,
+                minHeight: r.readFloat32(),
+                maxHeight: r.readFloat32(),
+                featherType: r.readInt32(),
+                featherDistance: r.readFloat32()
+            };
+            break;
+        case 'FSLP':
+        case 'FDIR':
+            filter = {
+                tag, version,
+                minAngle: r.readFloat32(),
+                maxAngle: r.readFloat32(),
+                featherType: r.readInt32(),
+                featherDistance: r.readFloat32()
+            };
+            break;
+        case 'FFRA':
+            filter = {
+                tag, version,
+                fractalFamilyId: r.readInt32(),
+                featherType: r.readInt32(),
+                featherDistance: r.readFloat32(),
+                minValue: r.readFloat32(),
+                maxValue: r.readFloat32(),
+                scale: r.readFloat32()
+            };
+            break;
+        case 'FSHD':
+            filter = {
+                tag, version,
+                shaderFamilyId: r.readInt32(),
+                featherType: r.readInt32(),
+                featherDistance: r.readFloat32()
+            };
+            break;
+        case 'FBIT':
+            filter = {
+                tag, version,
+                bitmapId: r.readInt32(),
+                featherType: r.readInt32(),
+                featherDistance: r.readFloat32(),
+                minValue: r.readFloat32(),
+                maxValue: r.readFloat32(),
+                gain: r.readFloat32()
+            };
+            break;
+        default:
+            return null;
+    }
+
+    if (r.overrun) {
+        filter.truncated = true;
+    }
+    return filter;
+}
@@ -0,0 +1,253 @@
+/**
+ * TRN Multi-Fractal Support
+ * Decodes MGRP fractal families (MFAM > DATA + FORM MFRC) and evaluates them
+ * as seeded, multi-octave Perlin noise for previews and height evaluation
+ *
+ * Structure: FORM MFAM > DATA (id, name) + FORM MFRC > FORM <version> > DATA
+ */
+
+import { ChunkReader } from './chunkReader';
+
+// Octave combination rules stored in MFRC DATA, in the client's order
+export const COMBINATION_RULE_NAMES = ['Add', 'Multiply', 'Crest', 'Turbulence', 'Crest Clamp', 'Turbulence Clamp'];
+
+export interface FractalSettings {
+    seed: number;
+    useBias: boolean;
+    bias: number;
+    useGain: boolean;
+    gain: number;
+    octaves: number;
+    octavesParam: number;   // Frequency multiplier between octaves
+    amplitude: number;      // Amplitude multiplier between octaves
+    freqX: number;
+    freqZ: number;
+    offsetX: number;
+    offsetZ: number;
+    combinationRule: number;
+}
+
+export interface FractalFamily {
+    id: number;
+    name: string;
+    version: string;
+    settings: FractalSettings;
+    truncated?: boolean;    // Payload was shorter than the decoder expected
+}
+
+// Used when an MFAM has no readable MFRC payload
+export const DEFAULT_FRACTAL_SETTINGS: FractalSettings = {
+    seed: 0,
+    useBias: false,
+    bias: 0.5,
+    useGain: false,
+    gain: 0.5,
+    octaves: 1,
+    octavesParam: 2,
+    amplitude: 0.5,
+    freqX: 0.01,
+    freqZ: 0.01,
+    offsetX: 0,
+    offsetZ: 0,
+    combinationRule: 0
+};
+
+/**
+ * Decode an MFRC DATA payload
+ * `start`/`size` describe the chunk content (after tag + size)
+ */
+export function decodeFractalSettings(data: Uint8Array, start: number, size: number): { settings: FractalSettings; truncated: boolean } {
+    const r = new ChunkReader(data, start, size);
+    const settings: FractalSettings = {
+        seed: r.readUint32(),
+        useBias: r.readBool(),
+        bias: r.readFloat32(),
+        useGain: r.readBool(),
+        gain: r.readFloat32(),
+        octaves: r.readInt32(),
+        octavesParam: r.readFloat32(),
+        amplitude: r.readFloat32(),
+        freqX: r.readFloat32(),
+        freqZ: r.readFloat32(),
+        offsetX: r.readFloat32(),
+        offsetZ: r.readFloat32(),
+        combinationRule: r.readInt32()
+    };
+    return { settings, truncated: r.overrun };
+}
+
+/**
+ * Seeded multi-octave noise generator
+ * getValue() returns a value in [0, 1] for a world position
+ */
+export class MultiFractal {
+    private perm = new Uint8Array(512);
+    private gradX = new Float32Array(256);
+    private gradZ = new Float32Array(256);
+    private octaves: number;
+    private lacunarity: number;
+    private persistence: number;
+    private maxAmplitude: number;
+
+    constructor(private readonly settings: FractalSettings) {
+        // Clamp degenerate values so damaged files can't hang or NaN the preview
+        this.octaves = Math.max(1, Math.min(16, Math.floor(settings.octaves) || 1));
+        this.lacunarity = settings.octavesParam > 0 && isFinite(settings.octavesParam) ? settings.octavesParam : 2;
+        this.persistence = settings.amplitude > 0 && isFinite(settings.amplitude) ? settings.amplitude : 0.5;
+
+        this.maxAmplitude = 0;
+        let amp = 1;
+        for (let i = 0; i < this.octaves; i++) {
+            this.maxAmplitude += amp;
+            amp *= this.persistence;
+        }
+
+        this.initTables(settings.seed >>> 0);
+    }
+
+    getValue(x: number, z: number): number {
+        const s = this.settings;
+        const rule = s.combinationRule;
+        const clamp = rule === 4 || rule === 5;
+        let fx = (x + s.offsetX) * s.freqX;
+        let fz = (z + s.offsetZ) * s.freqZ;
+        let amp = 1;
+        let sum = 0;
+        let product = 1;
+
+        for (let i = 0; i < this.octaves; i++) {
+            const n = this.noise(fx, fz);
+            let v: number;
+            switch (rule) {
+                case 2:
+                case 4:
+                    v = 1 - Math.abs(n);
+                    break;
+                case 3:
+                case 5:
+                    v = Math.abs(n);
+                    break;
+                default:
+                    v = (n + 1) * 0.5;
+                    break;
+            }
+            if (rule === 1) {
+                // Multiply: each octave scales the result, weaker octaves less (stays in 0..1)
+                const weight = Math.min(1, amp);
+                product *= 1 - weight + weight * v;
+            } else {
+                sum += v * amp;
+            }
+            if (clamp) {
+                sum = Math.min(sum, this.maxAmplitude);
+            }
+            amp *= this.persistence;
+            fx *= this.lacunarity;
+            fz *= this.lacunarity;
+        }
+
+        let value = rule === 1 ? product : sum / this.maxAmplitude;
+        value = Math.max(0, Math.min(1, value));
+        if (s.useBias) value = bias(s.bias, value);
+        if (s.useGain) value = gain(s.gain, value);
+        return value;
+    }
+
+    private initTables(seed: number): void {
+        // mulberry32 keeps the table stable for a given seed across platforms
+        let state = seed;
+        const random = () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+
+        const p = new Uint8Array(256);
+        for (let i = 0; i < 256; i++) {
+            p[i] = i;
+            const angle = random() * Math.PI * 2;
+            this.gradX[i] = Math.cos(angle);
+            this.gradZ[i] = Math.sin(angle);
+        }
+        for (let i = 255; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            const tmp = p[i]; p[i] = p[j]; p[j] = tmp;
+        }
+        for (let i = 0; i < 512; i++) {
+            this.perm[i] = p[i & 255];
+        }
+    }
+
+    // 2D gradient noise in roughly [-1, 1]
+    private noise(x: number, z: number): number {
+        const x0 = Math.floor(x);
+        const z0 = Math.floor(z);
+        const xf = x - x0;
+        const zf = z - z0;
+        const xi = x0 & 255;
+        const zi = z0 & 255;
+
+        const dot = (hash: number, dx: number, dz: number) => this.gradX[hash] * dx + this.gradZ[hash] * dz;
+        const n00 = dot(this.perm[xi + this.perm[zi]], xf, zf);
+        const n10 = dot(this.perm[xi + 1 + this.perm[zi]], xf - 1, zf);
+        const n01 = dot(this.perm[xi + this.perm[zi + 1]], xf, zf - 1);
+        const n11 = dot(this.perm[xi + 1 + this.perm[zi + 1]], xf - 1, zf - 1);
+
+        const u = fade(xf);
+        const v = fade(zf);
+        const nx0 = n00 + u * (n10 - n00);
+        const nx1 = n01 + u * (n11 - n01);
+        // Unit gradients peak at ~0.707, scale to fill [-1, 1]
+        return Math.max(-1, Math.min(1, (nx0 + v * (nx1 - nx0)) * Math.SQRT2));
+    }
+}
+
+export interface FractalTile {
+    size: number;
+    values: number[];       // Row-major, 0-255 (row 0 = max Z)
+    min: number;
+    max: number;
+}
+
+/**
+ * Sample a square tile of world space centered on (centerX, centerZ)
+ */
+export function renderFractalTile(settings: FractalSettings, centerX: number, centerZ: number, extent: number, size: number): FractalTile {
+    const fractal = new MultiFractal(settings);
+    const values: number[] = new Array(size * size);
+    const step = extent / size;
+    const left = centerX - extent / 2;
+    const top = centerZ + extent / 2;
+    let min = Infinity;
+    let max = -Infinity;
+
+    for (let row = 0; row < size; row++) {
+        const z = top - (row + 0.5) * step;
+        for (let col = 0; col < size; col++) {
+            const v = fractal.getValue(left + (col + 0.5) * step, z);
+            if (v < min) min = v;
+            if (v > max) max = v;
+            values[row * size + col] = Math.round(v * 255);
+        }
+    }
+
+    return { size, values, min, max };
+}
+
+function fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+// Perlin's bias/gain curves; b/g of 0.5 leave the value unchanged
+function bias(b: number, t: number): number {
+    if (t <= 0) return 0;
+    if (b <= 0 || b >= 1) return t;
+    return Math.pow(t, Math.log(b) / Math.log(0.5));
+}
+
+function gain(g: number, t: number): number {
+    if (t < 0.5) return bias(1 - g, 2 * t) / 2;
+    return 1 - bias(1 - g, 2 - 2 * t) / 2;
+}
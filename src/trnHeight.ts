@@ -0,0 +1,493 @@
+/**
+ * TRN Terrain Height Evaluator
+ * Walks the LYRS hierarchy in file order and computes the generated terrain
+ * height at a world position from boundaries, filters and height affectors,
+ * along with the shader, flora and environment families the other affectors
+ * leave behind
+ *
+ * Per layer: weight = boundary weight (max over boundaries) limited by the
+ * filter weight (min over filters); affectors run with the weight multiplied
+ * by the parent layer's, then sublayers are processed with that weight.
+ */
+
+import { Boundary, applyFeather, distanceToPolyline, getBoundaryWeight } from './trnParser';
+import { TRNNode, TRNTree } from './trnTree';
+import { AffectorData } from './trnAffectors';
+import { FilterData } from './trnFilters';
+import { TRNFamilies } from './trnFamilies';
+import { MultiFractal } from './trnFractals';
+
+export interface HeightLayerItem<T> {
+    name: string;
+    data: T;
+}
+
+export interface HeightLayer {
+    name: string;
+    active: boolean;
+    invertBoundaries: boolean;
+    invertFilters: boolean;
+    boundaries: Boundary[];                         // Active boundaries only
+    filters: HeightLayerItem<FilterData>[];         // Active filters only
+    affectors: HeightLayerItem<AffectorData>[];     // Active affectors only
+    children: HeightLayer[];
+}
+
+/**
+ * Family picked at a point and the layer item that picked it
+ */
+export interface FamilyHit {
+    familyId: number;
+    layer: string;
+    affector: string;
+}
+
+// Flora slots filled by AFSC, AFSN, AFDN and AFDF respectively
+export type FloraCategory = 'collidable' | 'nonCollidable' | 'radialNear' | 'radialFar';
+
+export const FLORA_CATEGORY_BY_TAG: Record<string, FloraCategory> = {
+    AFSC: 'collidable',
+    AFSN: 'nonCollidable',
+    AFDN: 'radialNear',
+    AFDF: 'radialFar'
+};
+
+export interface FloraHit extends FamilyHit {
+    density: number;        // Family (or override) density scaled by the layer weight
+}
+
+/**
+ * River channel with its own water table covering a point
+ */
+export interface WaterHit {
+    depth: number;          // localWaterTableDepth of the river
+    layer: string;
+    affector: string;
+}
+
+/**
+ * Result of the layer pass at one point
+ */
+export interface TerrainSample {
+    height: number;
+    shader?: FamilyHit;     // Last shader affector applied above its feather clamp
+    environment?: FamilyHit;
+    water?: WaterHit;       // Global water is left to the caller, it lives in the map header
+    flora: { [C in FloraCategory]?: FloraHit };
+}
+
+/**
+ * Step-by-step record of how a point was evaluated ("explain this point")
+ */
+export interface BoundaryTrace {
+    name: string;
+    type: Boundary['type'];
+    weight: number;
+}
+
+export interface FilterTrace {
+    name: string;
+    filter: FilterData;
+    value?: number;         // Value tested against the range; absent when not evaluated
+    weight: number;
+}
+
+export interface AffectorTrace {
+    name: string;
+    affector: AffectorData;
+    amount: number;
+    heightBefore: number;
+    heightAfter: number;
+}
+
+export interface LayerTrace {
+    name: string;
+    depth: number;
+    active: boolean;
+    boundaryCount: number;
+    boundaries: BoundaryTrace[];    // Boundaries containing the point
+    boundaryWeight: number;         // After invert
+    filters: FilterTrace[];
+    filterWeight: number;           // After invert
+    amount: number;                 // Final weight including parent layers
+    skipped?: string;               // Why nothing was applied, when amount is 0
+    affectors: AffectorTrace[];
+    invertBoundaries: boolean;
+    invertFilters: boolean;
+}
+
+export interface PointTrace {
+    x: number;
+    z: number;
+    height: number;
+    shader?: FamilyHit;
+    environment?: FamilyHit;
+    layers: LayerTrace[];           // In evaluation order
+}
+
+const BOUNDARY_TAGS = ['BCIR', 'BREC', 'BPOL', 'BPLN'];
+
+/**
+ * Build the evaluation layer model from the parsed tree
+ * Boundaries are matched to the parser's Boundary objects by FORM offset,
+ * so in-place property edits are picked up without rebuilding.
+ */
+export function buildHeightLayers(data: Uint8Array, tree: TRNTree, boundaries: Boundary[]): HeightLayer[] {
+    const boundaryByOffset = new Map<number, Boundary>();
+    boundaries.forEach(b => boundaryByOffset.set(b.offset, b));
+
+    const isFormAt = (offset: number) =>
+        data[offset] === 0x46 && data[offset + 1] === 0x4F && data[offset + 2] === 0x52 && data[offset + 3] === 0x4D;
+
+    const readUint32LE = (offset: number) =>
+        (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+
+    // Version FORM (0000, 0003, ...) wrapping the contents of an item
+    const contentsOf = (node: TRNNode) =>
+        node.children.find(c => /^\d{4}$/.test(c.type) && isFormAt(c.offset)) || node;
+
+    // IHDR DATA starts with the item's active flag
+    const isItemActive = (node: TRNNode): boolean => {
+        const ihdr = contentsOf(node).children.find(c => c.type === 'IHDR' && isFormAt(c.offset));
+        if (!ihdr) return true;
+        const dataNode = contentsOf(ihdr).children.find(c => c.type === 'DATA' && !isFormAt(c.offset));
+        return !dataNode || dataNode.size < 12 || readUint32LE(dataNode.offset + 8) !== 0;
+    };
+
+    const buildLayer = (node: TRNNode): HeightLayer => {
+        const layer: HeightLayer = {
+            name: node.data?.name || 'Layer',
+            active: isItemActive(node),
+            invertBoundaries: false,
+            invertFilters: false,
+            boundaries: [],
+            filters: [],
+            affectors: [],
+            children: []
+        };
+
+        for (const child of contentsOf(node).children) {
+            if (child.type === 'ADTA' && !isFormAt(child.offset)) {
+                // ADTA: invertBoundaries, invertFilters, unused, notes
+                if (child.size >= 16) {
+                    layer.invertBoundaries = readUint32LE(child.offset + 8) !== 0;
+                    layer.invertFilters = readUint32LE(child.offset + 12) !== 0;
+                }
+            } else if (child.type === 'LAYR') {
+                layer.children.push(buildLayer(child));
+            } else if (BOUNDARY_TAGS.includes(child.type)) {
+                const boundary = boundaryByOffset.get(child.offset);
+                if (boundary && isItemActive(child)) layer.boundaries.push(boundary);
+            } else if (child.filter) {
+                if (isItemActive(child)) layer.filters.push({ name: child.data?.name || child.type, data: child.filter });
+            } else if (child.affector) {
+                if (isItemActive(child)) layer.affectors.push({ name: child.data?.name || child.type, data: child.affector });
+            }
+        }
+        return layer;
+    };
+
+    // Top-level layers are the LAYR forms directly under LYRS
+    const layers: HeightLayer[] = [];
+    const collect = (node: TRNNode): void => {
+        for (const child of node.children) {
+            if (child.type === 'LAYR') {
+                layers.push(buildLayer(child));
+            } else {
+                collect(child);
+            }
+        }
+    };
+    const findLYRS = (node: TRNNode): TRNNode | null => {
+        if (node.type === 'LYRS') return node;
+        for (const child of node.children) {
+            const found = findLYRS(child);
+            if (found) return found;
+        }
+        return null;
+    };
+
+    const lyrs = findLYRS(tree.root);
+    if (lyrs) collect(lyrs);
+    return layers;
+}
+
+export class TerrainHeightEvaluator {
+    private fractals = new Map<number, MultiFractal>();
+    private shaderFeatherClamps = new Map<number, number>();
+    private environmentFeatherClamps = new Map<number, number>();
+    private floraDensities = new Map<number, number>();
+    private radialDensities = new Map<number, number>();
+
+    constructor(private readonly layers: HeightLayer[], families: TRNFamilies) {
+        families.fractals.forEach(f => this.fractals.set(f.id, new MultiFractal(f.settings)));
+        families.shaders.forEach(f => this.shaderFeatherClamps.set(f.id, f.featherClamp));
+        families.environments.forEach(f => this.environmentFeatherClamps.set(f.id, f.featherClamp));
+        families.flora.forEach(f => this.floraDensities.set(f.id, f.density));
+        families.radial.forEach(f => this.radialDensities.set(f.id, f.density));
+    }
+
+    getHeight(x: number, z: number): number {
+        return this.sample(x, z).height;
+    }
+
+    sample(x: number, z: number): TerrainSample {
+        const sample: TerrainSample = { height: 0, flora: {} };
+        for (const layer of this.layers) {
+            this.processLayer(layer, x, z, sample, 1, 0);
+        }
+        return sample;
+    }
+
+    /**
+     * Evaluate a point and record every layer visited, in order
+     */
+    explain(x: number, z: number): PointTrace {
+        const trace: LayerTrace[] = [];
+        const sample: TerrainSample = { height: 0, flora: {} };
+        for (const layer of this.layers) {
+            this.processLayer(layer, x, z, sample, 1, 0, trace);
+        }
+        return { x, z, height: sample.height, shader: sample.shader, environment: sample.environment, layers: trace };
+    }
+
+    /**
+     * Sample heights at cell centers of a grid; row 0 is the top (max Z) row
+     */
+    getHeightGrid(minX: number, maxZ: number, cellSize: number, columns: number, rows: number): number[] {
+        return this.sampleGrid(minX, maxZ, cellSize, columns, rows, s => s.height);
+    }
+
+    /**
+     * Evaluate cell centers of a grid and keep one value per cell
+     */
+    sampleGrid<T>(minX: number, maxZ: number, cellSize: number, columns: number, rows: number, read: (sample: TerrainSample) => T): T[] {
+        const values: T[] = new Array(columns * rows);
+        for (let row = 0; row < rows; row++) {
+            const z = maxZ - (row + 0.5) * cellSize;
+            for (let col = 0; col < columns; col++) {
+                values[row * columns + col] = read(this.sample(minX + (col + 0.5) * cellSize, z));
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Apply one layer and its sublayers; when `trace` is given every boundary
+     * and filter is evaluated (no early outs), sublayers of a skipped layer
+     * are still traced, and a LayerTrace is appended per layer
+     */
+    private processLayer(layer: HeightLayer, x: number, z: number, sample: TerrainSample, parentAmount: number, depth: number, trace?: LayerTrace[]): void {
+        const entry: LayerTrace | undefined = trace ? {
+            name: layer.name,
+            depth,
+            active: layer.active,
+            boundaryCount: layer.boundaries.length,
+            boundaries: [],
+            boundaryWeight: 0,
+            filters: [],
+            filterWeight: 0,
+            amount: 0,
+            affectors: [],
+            invertBoundaries: layer.invertBoundaries,
+            invertFilters: layer.invertFilters
+        } : undefined;
+        if (entry) trace!.push(entry);
+        if (!layer.active) {
+            if (entry) this.skipLayer(layer, entry, 'inactive', x, z, sample, depth, trace!);
+            return;
+        }
+
+        let amount = layer.boundaries.length === 0 ? 1 : 0;
+        for (const boundary of layer.boundaries) {
+            const weight = getBoundaryWeight(boundary, x, z);
+            amount = Math.max(amount, weight);
+            if (entry) {
+                if (weight > 0) entry.boundaries.push({ name: boundary.name, type: boundary.type, weight });
+            } else if (amount >= 1) {
+                break;
+            }
+        }
+        if (layer.invertBoundaries) amount = 1 - amount;
+        if (entry) entry.boundaryWeight = amount;
+        if (amount <= 0 && !entry) return;
+
+        let filterAmount = 1;
+        for (const filter of layer.filters) {
+            const value = this.getFilterInput(filter.data, x, z, sample.height);
+            const weight = this.getFilterWeight(filter.data, value);
+            filterAmount = Math.min(filterAmount, weight);
+            if (entry) {
+                entry.filters.push({ name: filter.name, filter: filter.data, value, weight });
+            } else if (filterAmount <= 0) {
+                break;
+            }
+        }
+        if (layer.invertFilters) filterAmount = 1 - filterAmount;
+        const boundaryAmount = amount;
+        amount = Math.min(amount, filterAmount) * parentAmount;
+        if (entry) {
+            entry.filterWeight = filterAmount;
+            entry.amount = amount;
+            if (amount <= 0) {
+                const reason = boundaryAmount <= 0 ? (layer.boundaries.length > 0 ? 'outside boundaries' : 'inverted')
+                    : filterAmount <= 0 ? 'filtered out' : 'parent not applied';
+                this.skipLayer(layer, entry, reason, x, z, sample, depth, trace!);
+            }
+        }
+        if (amount <= 0) return;
+
+        for (const affector of layer.affectors) {
+            const before = sample.height;
+            this.applyAffector(affector, layer, x, z, sample, amount);
+            if (entry) {
+                entry.affectors.push({ name: affector.name, affector: affector.data, amount, heightBefore: before, heightAfter: sample.height });
+            }
+        }
+        for (const child of layer.children) {
+            this.processLayer(child, x, z, sample, amount, depth + 1, trace);
+        }
+    }
+
+    // Record why a layer did nothing and trace its sublayers with no weight to pass on
+    private skipLayer(layer: HeightLayer, entry: LayerTrace, reason: string, x: number, z: number, sample: TerrainSample, depth: number, trace: LayerTrace[]): void {
+        entry.amount = 0;
+        entry.skipped = reason;
+        for (const child of layer.children) {
+            this.processLayer(child, x, z, sample, 0, depth + 1, trace);
+        }
+    }
+
+    /**
+     * Value a filter tests at this point, or undefined when the height pass
+     * can't evaluate it (slope/direction need neighbouring heights,
+     * shader/bitmap need data the height pass doesn't have)
+     */
+    private getFilterInput(filter: FilterData, x: number, z: number, height: number): number | undefined {
+        switch (filter.tag) {
+            case 'FHGT':
+                return height;
+            case 'FFRA': {
+                const fractal = this.fractals.get(filter.fractalFamilyId);
+                return fractal ? fractal.getValue(x, z) * filter.scale : undefined;
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    // Filters that can't be evaluated let everything pass
+    private getFilterWeight(filter: FilterData, value: number | undefined): number {
+        if (value === undefined) return 1;
+        switch (filter.tag) {
+            case 'FHGT':
+                return rangeWeight(value, filter.minHeight, filter.maxHeight, filter.featherType, filter.featherDistance);
+            case 'FFRA':
+                return rangeWeight(value, filter.minValue, filter.maxValue, filter.featherType, filter.featherDistance);
+            default:
+                return 1;
+        }
+    }
+
+    private applyAffector(item: HeightLayerItem<AffectorData>, layer: HeightLayer, x: number, z: number, sample: TerrainSample, amount: number): void {
+        const affector = item.data;
+        const height = sample.height;
+        switch (affector.tag) {
+            case 'AHCN':
+                sample.height = applyHeightOperation(affector.operation, height, affector.height, amount);
+                break;
+            case 'AHFR': {
+                const fractal = this.fractals.get(affector.fractalFamilyId);
+                if (fractal) {
+                    sample.height = applyHeightOperation(affector.operation, height, fractal.getValue(x, z) * affector.height, amount);
+                }
+                break;
+            }
+            case 'AHTR': {
+                const step = affector.height;
+                if (step <= 0) break;
+                // Flat shelf for the first flatRatio of each step, then a ramp up to the next
+                const lower = Math.floor(height / step) * step;
+                const flat = Math.max(0, Math.min(1, affector.flatRatio));
+                const into = (height - lower) / step;
+                const terraced = into <= flat || flat >= 1 ? lower : lower + (into - flat) / (1 - flat) * step;
+                sample.height = height + amount * (terraced - height);
+                break;
+            }
+            case 'ASCN': {
+                const clamp = affector.useFeatherClampOverride ? affector.featherClampOverride : this.shaderFeatherClamps.get(affector.shaderFamilyId);
+                if (passesFeatherClamp(amount, clamp)) {
+                    sample.shader = { familyId: affector.shaderFamilyId, layer: layer.name, affector: item.name };
+                }
+                break;
+            }
+            case 'AENV': {
+                const clamp = affector.useFeatherClampOverride ? affector.featherClampOverride : this.environmentFeatherClamps.get(affector.environmentFamilyId);
+                if (passesFeatherClamp(amount, clamp)) {
+                    sample.environment = { familyId: affector.environmentFamilyId, layer: layer.name, affector: item.name };
+                }
+                break;
+            }
+            // Roads and river beds only paint the strip under their own centerline
+            case 'AROD':
+                if (distanceToPolyline(x, z, affector.points) <= affector.width / 2 &&
+                    passesFeatherClamp(amount, this.shaderFeatherClamps.get(affector.shaderFamilyId))) {
+                    sample.shader = { familyId: affector.shaderFamilyId, layer: layer.name, affector: item.name };
+                }
+                break;
+            case 'ARIV': {
+                if (distanceToPolyline(x, z, affector.points) > affector.width / 2) break;
+                if (passesFeatherClamp(amount, this.shaderFeatherClamps.get(affector.bottomShaderFamilyId))) {
+                    sample.shader = { familyId: affector.bottomShaderFamilyId, layer: layer.name, affector: item.name };
+                }
+                if (affector.hasLocalWaterTable) {
+                    sample.water = { depth: affector.localWaterTableDepth, layer: layer.name, affector: item.name };
+                }
+                break;
+            }
+            case 'AFSC':
+            case 'AFSN':
+            case 'AFDN':
+            case 'AFDF': {
+                const category = FLORA_CATEGORY_BY_TAG[affector.tag];
+                if (affector.removeAll) {
+                    delete sample.flora[category];
+                    break;
+                }
+                const densities = affector.tag === 'AFSC' || affector.tag === 'AFSN' ? this.floraDensities : this.radialDensities;
+                const density = affector.densityOverride ? affector.densityOverrideDensity : densities.get(affector.familyId) ?? 1;
+                sample.flora[category] = { familyId: affector.familyId, layer: layer.name, affector: item.name, density: density * amount };
+                break;
+            }
+        }
+    }
+}
+
+// Shaders and environments only take over where the layer weight reaches their feather clamp
+function passesFeatherClamp(amount: number, featherClamp: number | undefined): boolean {
+    return amount >= Math.max(0, Math.min(1, featherClamp ?? 0));
+}
+
+/**
+ * Apply an AHCN/AHFR operation with strength `amount` (0..1)
+ */
+function applyHeightOperation(operation: number, base: number, value: number, amount: number): number {
+    switch (operation) {
+        case 0: return base + amount * value;                   // Add
+        case 1: return base - amount * value;                   // Subtract
+        case 2: return base + amount * (base * value - base);   // Multiply
+        case 3: return base + amount * (value - base);          // Replace
+        default: return base;
+    }
+}
+
+/**
+ * Filter pass weight: 0 outside [min, max], ramping to 1 over the feathered
+ * edge (featherDistance is a fraction of half the range)
+ */
+function rangeWeight(value: number, min: number, max: number, featherType: number, featherDistance: number): number {
+    if (value < min || value > max) return 0;
+    const feather = (max - min) * 0.5 * Math.max(0, Math.min(1, featherDistance));
+    if (feather <= 0) return 1;
+    return applyFeather(featherType, Math.min((value - min) / feather, (max - value) / feather));
+}
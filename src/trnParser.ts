@@ -7,6 +7,11 @@
  * - Boundary types: BCIR (circle), BREC (rectangle), BPOL (polygon), BPLN (polyline)
  */
 
+import { TRNFamilies, TRNFamilyParser } from './trnFamilies';
+
+// Feather falloff functions shared by boundaries and filters
+export const FEATHER_TYPE_NAMES = ['Linear', 'Ease In', 'Ease Out', 'Ease In/Out'];
+
 export interface Point2D {
     x: number;
     z: number;
@@ -51,6 +56,44 @@ export interface MapInfo {
     radialFarSeed: number;
 }
 
+export type MapInfoFieldType = 'string' | 'float' | 'int' | 'bool';
+
+/**
+ * Header DATA field order, as read by parseMapInfoData
+ * Strings are null-terminated without padding, so later offsets depend on them
+ */
+export const MAP_INFO_LAYOUT: { field: keyof MapInfo; type: MapInfoFieldType; maxLength?: number }[] = [
+    { field: 'terrainFile', type: 'string', maxLength: 256 },
+    { field: 'mapSize', type: 'float' },
+    { field: 'chunkWidth', type: 'float' },
+    { field: 'tilesPerChunk', type: 'int' },
+    { field: 'useGlobalWaterTable', type: 'bool' },
+    { field: 'globalWaterTableHeight', type: 'float' },
+    { field: 'globalWaterTableShaderSize', type: 'float' },
+    { field: 'waterShaderName', type: 'string', maxLength: 64 },
+    { field: 'timeCycle', type: 'float' },
+    { field: 'floraCollidableMinDistance', type: 'int' },
+    { field: 'floraCollidableMaxDistance', type: 'float' },
+    { field: 'floraCollidableTileSize', type: 'float' },
+    { field: 'floraCollidableTileBorder', type: 'float' },
+    { field: 'floraCollidableSeed', type: 'int' },
+    { field: 'floraNonCollidableMinDistance', type: 'int' },
+    { field: 'floraNonCollidableMaxDistance', type: 'float' },
+    { field: 'floraNonCollidableTileSize', type: 'float' },
+    { field: 'floraNonCollidableTileBorder', type: 'float' },
+    { field: 'floraNonCollidableSeed', type: 'int' },
+    { field: 'radialNearMinDistance', type: 'int' },
+    { field: 'radialNearMaxDistance', type: 'float' },
+    { field: 'radialNearTileSize', type: 'float' },
+    { field: 'radialNearTileBorder', type: 'float' },
+    { field: 'radialNearSeed', type: 'int' },
+    { field: 'radialFarMinDistance', type: 'float' },
+    { field: 'radialFarMaxDistance', type: 'float' },
+    { field: 'radialFarTileSize', type: 'float' },
+    { field: 'radialFarTileBorder', type: 'float' },
+    { field: 'radialFarSeed', type: 'int' }
+];
+
 export interface BoundaryCircle {
     type: 'circle';
     name: string;
@@ -110,6 +153,7 @@ export interface TRNDocument {
     boundaries: Boundary[];
     layers: Layer[];
     mapInfo: MapInfo;
+    families: TRNFamilies;
 }
 
 export class TRNParser {
@@ -145,7 +189,8 @@ export class TRNParser {
             filename: mapInfo.terrainFile,
             boundaries,
             layers: [],
-            mapInfo
+            mapInfo,
+            families: new TRNFamilyParser(this.data).parse()
         };
     }
 
@@ -362,23 +407,15 @@ export class TRNParser {
                 const formType = this.readStringAt(pos + 8, 4);
                 if (formType === 'IHDR') {
                     // Found IHDR, now look for DATA chunk inside it
-                    const ihdrStart = pos + 12; // After FORM + size + IHDR
-                    const ihdrEnd = pos + 8 + chunkSize;
-                    let ihdrPos = ihdrStart;
-
-                    while (ihdrPos < ihdrEnd - 8) {
-                        const innerTag = this.readStringAt(ihdrPos, 4);
-                        const innerSize = this.readUint32BEAt(ihdrPos + 4);
-
-                        if (innerTag === 'DATA' && innerSize > 4) {
-                            // IHDR DATA: 4 bytes ID + null-terminated name
-                            const nameStart = ihdrPos + 8 + 4; // Skip tag + size + ID
-                            const name = this.readNullTerminatedStringAt(nameStart, Math.min(64, innerSize - 4));
-                            if (name && name.length > 0) {
-                                return name;
-                            }
-                        }
-                        ihdrPos += 8 + innerSize;
+                    const name = this.findIhdrNameAt(pos + 12, pos + 8 + chunkSize);
+                    if (name) {
+                        return name;
+                    }
+                } else if (/^\d{4}$/.test(formType)) {
+                    // LAYR > FORM 0003 > FORM IHDR
+                    const name = this.extractLayerName(pos + 12, chunkSize - 4);
+                    if (name !== 'Layer') {
+                        return name;
                     }
                 }
             }
@@ -387,6 +424,26 @@ export class TRNParser {
         return 'Layer';
     }
 
+    // IHDR DATA: 4 bytes ID + null-terminated name, usually inside a FORM 0001
+    private findIhdrNameAt(start: number, end: number): string {
+        let pos = start;
+        while (pos < end - 8) {
+            const tag = this.readStringAt(pos, 4);
+            const size = this.readUint32BEAt(pos + 4);
+
+            if (tag === 'DATA' && size > 4) {
+                return this.readNullTerminatedStringAt(pos + 12, Math.min(64, size - 4));
+            } else if (tag === 'FORM') {
+                const name = this.findIhdrNameAt(pos + 12, Math.min(end, pos + 8 + size));
+                if (name) {
+                    return name;
+                }
+            }
+            pos += 8 + size;
+        }
+        return '';
+    }
+
     private isValidName(name: string): boolean {
         return /^[\w\s_-]+$/.test(name);
     }
@@ -622,6 +679,7 @@ export class TRNParser {
                     if (inner.name) name = inner.name;
                     if (inner.vertices.length > 0) {
                         vertices = inner.vertices;
+                        featherType = inner.featherType;
                         featherAmount = inner.featherAmount;
                     }
                 }
@@ -660,11 +718,11 @@ export class TRNParser {
         };
     }
 
-    private parseBPOLInner(size: number): { name?: string; vertices: Point2D[]; featherAmount: number } {
+    private parseBPOLInner(size: number): { name?: string; vertices: Point2D[]; featherType: number; featherAmount: number } {
         const end = this.pos + size;
         let name: string | undefined;
         let vertices: Point2D[] = [];
-        let featherAmount = 0;
+        let featherType = 0, featherAmount = 0;
 
         while (this.pos < end - 8) {
             const tag = this.readString(4);
@@ -680,6 +738,7 @@ export class TRNParser {
                     if (inner.name) name = inner.name;
                     if (inner.vertices.length > 0) {
                         vertices = inner.vertices;
+                        featherType = inner.featherType;
                         featherAmount = inner.featherAmount;
                     }
                 }
@@ -695,7 +754,7 @@ export class TRNParser {
                             z: this.readFloat32LE()
                         });
                     }
-                    this.readUint32LE(); // featherType (skip)
+                    featherType = this.readUint32LE();
                     featherAmount = this.readFloat32LE();
                 }
                 this.pos = chunkEnd;
@@ -704,14 +763,14 @@ export class TRNParser {
             }
         }
 
-        return { name, vertices, featherAmount };
+        return { name, vertices, featherType, featherAmount };
     }
 
     private parseBPLN(size: number, layerPath: string[], offset: number): BoundaryPolyline | null {
         const end = this.pos + size;
         let name = 'BoundaryPolyline';
         let vertices: Point2D[] = [];
-        let width = 0, featherAmount = 0;
+        let width = 0, featherType = 0, featherAmount = 0;
 
         while (this.pos < end - 8) {
             const tag = this.readString(4);
@@ -728,6 +787,7 @@ export class TRNParser {
                     if (inner.vertices.length > 0) {
                         vertices = inner.vertices;
                         width = inner.width;
+                        featherType = inner.featherType;
                         featherAmount = inner.featherAmount;
                     }
                 }
@@ -746,7 +806,7 @@ export class TRNParser {
                     }
 
                     // Read tail: featherType(4) + featherAmount(4) + width(4)
-                    this.readUint32LE(); // featherType (skip)
+                    featherType = this.readUint32LE();
                     featherAmount = this.readFloat32LE();
                     width = this.readFloat32LE();
                 }
@@ -761,18 +821,18 @@ export class TRNParser {
             name,
             vertices,
             width,
-            featherType: 0,
+            featherType,
             featherAmount,
             layerPath,
             offset
         };
     }
 
-    private parseBPLNInner(size: number): { name?: string; vertices: Point2D[]; width: number; featherAmount: number } {
+    private parseBPLNInner(size: number): { name?: string; vertices: Point2D[]; width: number; featherType: number; featherAmount: number } {
         const end = this.pos + size;
         let name: string | undefined;
         let vertices: Point2D[] = [];
-        let width = 0, featherAmount = 0;
+        let width = 0, featherType = 0, featherAmount = 0;
 
         while (this.pos < end - 8) {
             const tag = this.readString(4);
@@ -789,6 +849,7 @@ export class TRNParser {
                     if (inner.vertices.length > 0) {
                         vertices = inner.vertices;
                         width = inner.width;
+                        featherType = inner.featherType;
                         featherAmount = inner.featherAmount;
                     }
                 }
@@ -804,7 +865,7 @@ export class TRNParser {
                             z: this.readFloat32LE()
                         });
                     }
-                    this.readUint32LE(); // featherType (skip)
+                    featherType = this.readUint32LE();
                     featherAmount = this.readFloat32LE();
                     width = this.readFloat32LE();
                 }
@@ -814,7 +875,7 @@ export class TRNParser {
             }
         }
 
-        return { name, vertices, width, featherAmount };
+        return { name, vertices, width, featherType, featherAmount };
     }
 
     private parseIHDR(size: number): string {
@@ -825,8 +886,14 @@ export class TRNParser {
             const chunkSize = this.readUint32BE();
 
             if (tag === 'FORM') {
-                const formType = this.readString(4);
-                this.pos += chunkSize - 4;
+                // Version FORM (0001) wrapping the DATA
+                const formEnd = this.pos + chunkSize;
+                this.pos += 4;
+                const name = this.parseIHDR(chunkSize - 4);
+                if (name !== 'Unknown') {
+                    return name;
+                }
+                this.pos = formEnd;
             } else if (tag === 'DATA') {
                 // IHDR DATA contains ID and name
                 if (chunkSize > 4) {
@@ -996,6 +1063,113 @@ function pointToSegmentDistance(px: number, pz: number, x1: number, z1: number,
     return Math.sqrt((px - nearestX) ** 2 + (pz - nearestZ) ** 2);
 }
 
+/**
+ * Feather falloff across a boundary's feather band
+ * `t` runs from 0 at the outer edge to 1 where the band ends (full weight)
+ * The map webview draws feather bands with a copy of this and getFeatherWidth
+ */
+export function applyFeather(featherType: number, t: number): number {
+    t = Math.max(0, Math.min(1, t));
+    switch (featherType) {
+        case 1: return t * t;                       // Ease In
+        case 2: return 1 - (1 - t) * (1 - t);       // Ease Out
+        case 3: return t * t * (3 - 2 * t);         // Ease In/Out
+        default: return t;                          // Linear
+    }
+}
+
+/**
+ * Blend weight of a boundary at a point: 0 outside, 1 inside the feather band,
+ * falling off across the band by the boundary's feather type
+ *
+ * Feather widths: circle = fraction of radius, rectangle = fraction of half
+ * the shorter side, polyline = fraction of half the width, polygon = meters
+ */
+export function getBoundaryWeight(boundary: Boundary, x: number, z: number): number {
+    switch (boundary.type) {
+        case 'circle':
+            return getCircleWeight(x, z, boundary);
+        case 'rectangle':
+            return getRectangleWeight(x, z, boundary);
+        case 'polygon':
+            return getPolygonWeight(x, z, boundary);
+        case 'polyline':
+            return getPolylineWeight(x, z, boundary);
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Width of a boundary's feather band in meters
+ */
+export function getFeatherWidth(boundary: Boundary): number {
+    const amount = Math.max(0, boundary.featherAmount);
+    switch (boundary.type) {
+        case 'circle':
+            return boundary.radius * Math.min(1, amount);
+        case 'rectangle':
+            return Math.min(Math.abs(boundary.x2 - boundary.x1), Math.abs(boundary.z2 - boundary.z1)) * 0.5 * Math.min(1, amount);
+        case 'polygon':
+            return amount;
+        case 'polyline':
+            return boundary.width * 0.5 * Math.min(1, amount);
+        default:
+            return 0;
+    }
+}
+
+function getCircleWeight(x: number, z: number, circle: BoundaryCircle): number {
+    const dist = Math.sqrt((x - circle.centerX) ** 2 + (z - circle.centerZ) ** 2);
+    if (dist > circle.radius) return 0;
+    const feather = getFeatherWidth(circle);
+    return feather > 0 ? applyFeather(circle.featherType, (circle.radius - dist) / feather) : 1;
+}
+
+function getRectangleWeight(x: number, z: number, rect: BoundaryRectangle): number {
+    const minX = Math.min(rect.x1, rect.x2), maxX = Math.max(rect.x1, rect.x2);
+    const minZ = Math.min(rect.z1, rect.z2), maxZ = Math.max(rect.z1, rect.z2);
+    if (x < minX || x > maxX || z < minZ || z > maxZ) return 0;
+    const feather = getFeatherWidth(rect);
+    if (feather <= 0) return 1;
+    const edgeDist = Math.min(x - minX, maxX - x, z - minZ, maxZ - z);
+    return applyFeather(rect.featherType, edgeDist / feather);
+}
+
+function getPolygonWeight(x: number, z: number, polygon: BoundaryPolygon): number {
+    if (!isPointInPolygon(x, z, polygon)) return 0;
+    const feather = getFeatherWidth(polygon);
+    if (feather <= 0) return 1;
+
+    const vertices = polygon.vertices;
+    let edgeDist = Infinity;
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+        edgeDist = Math.min(edgeDist, pointToSegmentDistance(x, z, vertices[j].x, vertices[j].z, vertices[i].x, vertices[i].z));
+    }
+    return applyFeather(polygon.featherType, edgeDist / feather);
+}
+
+function getPolylineWeight(x: number, z: number, polyline: BoundaryPolyline): number {
+    const halfWidth = polyline.width / 2;
+    if (polyline.vertices.length < 2 || halfWidth <= 0) return 0;
+
+    const dist = distanceToPolyline(x, z, polyline.vertices);
+    if (dist > halfWidth) return 0;
+    const feather = getFeatherWidth(polyline);
+    return feather > 0 ? applyFeather(polyline.featherType, (halfWidth - dist) / feather) : 1;
+}
+
+/**
+ * Shortest distance from a point to an open polyline (Infinity if it has no segments)
+ */
+export function distanceToPolyline(x: number, z: number, points: Point2D[]): number {
+    let dist = Infinity;
+    for (let i = 0; i < points.length - 1; i++) {
+        dist = Math.min(dist, pointToSegmentDistance(x, z, points[i].x, points[i].z, points[i + 1].x, points[i + 1].z));
+    }
+    return dist;
+}
+
 /**
  * Find all boundaries that contain the given point
  */
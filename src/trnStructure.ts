@@ -0,0 +1,241 @@
+/**
+ * TRN Layer Structure
+ * Builds layer items and finds their parts in the IFF chunk tree, for edits
+ * that add, remove, move, rename or shift boundaries and layers
+ *
+ * Every item is FORM <tag> > FORM <version> > [FORM IHDR, payload...]. A layer
+ * keeps its IHDR, ADTA and then its items in evaluation order inside
+ * FORM LAYR > FORM 0003; top-level layers sit directly in FORM LYRS.
+ */
+
+import { IffChunk, IffForm, IffNode, cloneNode, createChunk, createForm, findChild } from './iffTree';
+import { Boundary } from './trnParser';
+
+// Versions written for new boundaries; polygons and rectangles carry a local water table
+const BOUNDARY_FORMS: Record<Boundary['type'], { tag: string; version: string }> = {
+    circle: { tag: 'BCIR', version: '0002' },
+    rectangle: { tag: 'BREC', version: '0003' },
+    polygon: { tag: 'BPOL', version: '0005' },
+    polyline: { tag: 'BPLN', version: '0001' }
+};
+
+export const BOUNDARY_TAGS = Object.values(BOUNDARY_FORMS).map(f => f.tag);
+
+/**
+ * A boundary of `type` centred on (x, z), about `size` across
+ */
+export function defaultBoundary(type: Boundary['type'], x: number, z: number, size: number): Boundary {
+    const h = size / 2;
+    const common = { featherType: 0, featherAmount: 0, layerPath: [], offset: -1 };
+    switch (type) {
+        case 'circle':
+            return { type, name: 'New Circle', centerX: x, centerZ: z, radius: h, ...common };
+        case 'rectangle':
+            return { type, name: 'New Rectangle', x1: x - h, z1: z - h, x2: x + h, z2: z + h, ...common };
+        case 'polygon':
+            return { type, name: 'New Polygon', vertices: [{ x: x - h, z: z - h }, { x: x + h, z: z - h }, { x: x + h, z: z + h }, { x: x - h, z: z + h }], ...common };
+        case 'polyline':
+            return { type, name: 'New Polyline', vertices: [{ x: x - h, z }, { x: x + h, z }], width: size / 10, ...common };
+    }
+}
+
+/**
+ * FORM <tag> > FORM <version> > [IHDR, DATA] for a boundary, active
+ */
+export function createBoundaryForm(boundary: Boundary): IffForm {
+    const { tag, version } = BOUNDARY_FORMS[boundary.type];
+    const data = new PayloadWriter();
+
+    switch (boundary.type) {
+        case 'circle':
+            data.float(boundary.centerX).float(boundary.centerZ).float(boundary.radius);
+            data.int(boundary.featherType).float(boundary.featherAmount);
+            break;
+        case 'rectangle':
+            data.float(boundary.x1).float(boundary.z1).float(boundary.x2).float(boundary.z2);
+            data.int(boundary.featherType).float(boundary.featherAmount);
+            // Local water table: enabled, global, height, shader size, shader
+            data.int(0).int(0).float(0).float(2).string('');
+            break;
+        case 'polygon':
+            data.int(boundary.vertices.length);
+            boundary.vertices.forEach(v => data.float(v.x).float(v.z));
+            data.int(boundary.featherType).float(boundary.featherAmount);
+            // Local water table: enabled, height, shader size, shader
+            data.int(0).float(0).float(2).string('');
+            break;
+        case 'polyline':
+            data.int(boundary.vertices.length);
+            boundary.vertices.forEach(v => data.float(v.x).float(v.z));
+            data.int(boundary.featherType).float(boundary.featherAmount).float(boundary.width);
+            break;
+    }
+
+    return createForm(tag, [createForm(version, [createItemHeader(boundary.name), createChunk('DATA', data.bytes())])]);
+}
+
+/**
+ * Empty, active LAYR with nothing inverted
+ */
+export function createLayerForm(name: string): IffForm {
+    // ADTA: invertBoundaries, invertFilters, unused, notes
+    const adta = new PayloadWriter().int(0).int(0).int(0).string('');
+    return createForm('LAYR', [createForm('0003', [createItemHeader(name), createChunk('ADTA', adta.bytes())])]);
+}
+
+/**
+ * FORM IHDR > FORM 0001 > DATA (int32 active, name)
+ */
+export function createItemHeader(name: string, active = true): IffForm {
+    const data = new PayloadWriter().int(active ? 1 : 0).string(name);
+    return createForm('IHDR', [createForm('0001', [createChunk('DATA', data.bytes())])]);
+}
+
+/**
+ * IHDR DATA of a layer item: FORM <tag> > FORM <version> > FORM IHDR > [FORM 0001 >] DATA
+ */
+export function findItemHeader(item: IffForm): IffChunk | null {
+    const version = item.children.find(isVersionForm);
+    const ihdr = findChild(version || item, 'IHDR');
+    if (!ihdr || ihdr.kind !== 'form') return null;
+
+    const data = findChild(ihdr.children.find(isVersionForm) || ihdr, 'DATA');
+    return data && data.kind === 'chunk' ? data : null;
+}
+
+/**
+ * Payload of a layer item, next to its FORM IHDR: a DATA chunk, or the
+ * PARM (or DATA) chunk inside FORM DATA
+ */
+export function findItemPayload(item: IffForm): IffChunk | null {
+    const container = item.children.find(isVersionForm) || item;
+    for (const child of container.children) {
+        if (child.kind === 'chunk' && child.tag === 'DATA') return child;
+        if (child.kind === 'form' && child.type === 'DATA') {
+            const inner = child.children.find(c => c.kind === 'chunk' && c.tag === 'PARM') ||
+                          child.children.find(c => c.kind === 'chunk' && c.tag === 'DATA');
+            if (inner && inner.kind === 'chunk') return inner;
+        }
+    }
+    return null;
+}
+
+// Items whose payload starts with a point count and x/z pairs in world space
+const POINT_LIST_TAGS = ['BPOL', 'BPLN', 'AROD', 'ARIV'];
+
+/**
+ * Shift every item with world coordinates in `node` (a boundary, or a layer
+ * and all it holds) by (dx, dz): boundaries, and road and river points.
+ * Every version keeps its coordinates at the start of the payload; filters
+ * and the other affectors hold no positions.
+ */
+export function translateItems(node: IffNode, dx: number, dz: number): void {
+    if (node.kind !== 'form') return;
+    if (node.type !== 'BCIR' && node.type !== 'BREC' && !POINT_LIST_TAGS.includes(node.type)) {
+        node.children.forEach(child => translateItems(child, dx, dz));
+        return;
+    }
+
+    const payload = findItemPayload(node);
+    if (!payload) return;
+    const view = new DataView(payload.data.buffer, payload.data.byteOffset, payload.data.byteLength);
+    const shift = (pos: number, delta: number) => {
+        if (pos + 4 <= view.byteLength) view.setFloat32(pos, view.getFloat32(pos, true) + delta, true);
+    };
+
+    switch (node.type) {
+        case 'BCIR':
+            shift(0, dx);
+            shift(4, dz);
+            break;
+        case 'BREC':
+            shift(0, dx);
+            shift(4, dz);
+            shift(8, dx);
+            shift(12, dz);
+            break;
+        default: {
+            // Point count, then x/z pairs
+            const count = view.byteLength >= 4 ? Math.min(view.getUint32(0, true), Math.floor((view.byteLength - 4) / 8)) : 0;
+            for (let i = 0; i < count; i++) {
+                shift(4 + i * 8, dx);
+                shift(8 + i * 8, dz);
+            }
+        }
+    }
+}
+
+/**
+ * Put copies of boundaries and layers into a layer's contents (boundaries
+ * after its boundaries, layers at the end) or, for layers only, into LYRS,
+ * shifted by (dx, dz). Returns the inserted copies, or null if they can't go there
+ */
+export function insertCopies(contents: IffForm, forms: IffForm[], dx: number, dz: number): IffForm[] | null {
+    const items = forms.map(form => cloneNode(form));
+    const boundaries = items.filter(form => BOUNDARY_TAGS.includes(form.type));
+    const layers = items.filter(form => form.type === 'LAYR');
+    if (boundaries.length + layers.length !== items.length) return null;
+    // Boundaries belong to a layer, never directly to LYRS
+    if (contents.type === 'LYRS' && boundaries.length > 0) return null;
+
+    items.forEach(form => translateItems(form, dx, dz));
+    contents.children.splice(boundaryInsertIndex(contents), 0, ...boundaries);
+    contents.children.push(...layers);
+    return items;
+}
+
+/**
+ * The FORM whose children are the layer's IHDR, ADTA and items (LAYR > 0003),
+ * or for the LYRS container the container itself
+ */
+export function layerContents(layer: IffForm): IffForm | null {
+    if (layer.type === 'LYRS') return layer;
+    if (layer.type !== 'LAYR') return null;
+    return layer.children.find(isVersionForm) || null;
+}
+
+/**
+ * Where a new boundary goes among a layer's children: after its last
+ * boundary, or ahead of its filters and affectors when it has none
+ */
+export function boundaryInsertIndex(contents: IffForm): number {
+    let index = contents.children.findIndex(c => c.kind === 'form' ? c.type !== 'IHDR' : c.kind === 'chunk' && c.tag !== 'ADTA');
+    if (index === -1) index = contents.children.length;
+    contents.children.forEach((c, i) => {
+        if (c.kind === 'form' && BOUNDARY_TAGS.includes(c.type)) index = i + 1;
+    });
+    return index;
+}
+
+export function isVersionForm(node: IffNode): node is IffForm {
+    return node.kind === 'form' && /^\d{4}$/.test(node.type);
+}
+
+// Little-endian payload fields, as every TRN DATA chunk stores them
+class PayloadWriter {
+    private parts: number[] = [];
+
+    int(value: number): this {
+        const b = new Uint8Array(4);
+        new DataView(b.buffer).setInt32(0, value, true);
+        this.parts.push(...b);
+        return this;
+    }
+
+    float(value: number): this {
+        const b = new Uint8Array(4);
+        new DataView(b.buffer).setFloat32(0, value, true);
+        this.parts.push(...b);
+        return this;
+    }
+
+    string(value: string): this {
+        for (let i = 0; i < value.length; i++) this.parts.push(value.charCodeAt(i) & 0xFF);
+        this.parts.push(0);
+        return this;
+    }
+
+    bytes(): Uint8Array {
+        return new Uint8Array(this.parts);
+    }
+}
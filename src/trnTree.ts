@@ -3,6 +3,10 @@
  * Parses full TRN hierarchy including all chunk types for tree view display
  */
 
+import { AffectorData, decodeAffector, isAffectorTag } from './trnAffectors';
+import { FilterData, decodeFilter, isFilterTag } from './trnFilters';
+import { FractalSettings, decodeFractalSettings } from './trnFractals';
+
 export interface TRNNode {
     id: string;
     type: string;           // FORM type or chunk tag
@@ -13,6 +17,9 @@ export interface TRNNode {
     data?: any;             // Parsed data for specific types
     hasError?: boolean;     // Validation error flag
     errorMessage?: string;  // Error details
+    affector?: AffectorData; // Decoded parameters for affector FORMs
+    filter?: FilterData;     // Decoded parameters for filter FORMs
+    fractal?: FractalSettings; // Decoded MFRC settings
 }
 
 export interface TRNTree {
@@ -163,6 +170,15 @@ export class TRNTreeParser {
 
         this.pos = contentEnd;
 
+        if (isAffectorTag(formType) || isFilterTag(formType)) {
+            this.decodeLayerItemNode(node);
+        } else if (formType === 'MFRC') {
+            const payload = this.findItemPayload(node);
+            if (payload) {
+                node.fractal = decodeFractalSettings(this.data, payload.offset + 8, payload.node.size - 8).settings;
+            }
+        }
+
         // Update name if we found one
         if (node.data?.name) {
             node.name = `${this.getChunkName(formType)}: ${node.data.name}`;
@@ -275,6 +291,48 @@ export class TRNTreeParser {
         }
     }
 
+    private decodeLayerItemNode(node: TRNNode): void {
+        const payload = this.findItemPayload(node);
+        if (!payload) return;
+
+        const start = payload.offset + 8;
+        const size = payload.node.size - 8;
+        if (isAffectorTag(node.type)) {
+            node.affector = decodeAffector(node.type, payload.version, this.data, start, size) || undefined;
+        } else {
+            node.filter = decodeFilter(node.type, payload.version, this.data, start, size) || undefined;
+        }
+    }
+
+    /**
+     * Locate the parameter chunk of a layer item (affector/filter)
+     * Structure: FORM <tag> > FORM <version> > [FORM IHDR] + DATA | FORM DATA > PARM/DATA
+     */
+    private findItemPayload(node: TRNNode): { version: string; node: TRNNode; offset: number } | null {
+        const versionNode = node.children.find(c => /^\d{4}$/.test(c.type) && this.isFormAt(c.offset));
+        const container = versionNode || node;
+        const version = versionNode ? versionNode.type : '';
+
+        for (const child of container.children) {
+            if (child.type !== 'DATA') continue;
+            if (!this.isFormAt(child.offset)) {
+                return { version, node: child, offset: child.offset };
+            }
+            // FORM DATA: parameters live in a PARM (or plain DATA) chunk inside
+            const inner = child.children.find(c => c.type === 'PARM' && !this.isFormAt(c.offset)) ||
+                          child.children.find(c => c.type === 'DATA' && !this.isFormAt(c.offset));
+            if (inner) {
+                return { version, node: inner, offset: inner.offset };
+            }
+        }
+        return null;
+    }
+
+    private isFormAt(offset: number): boolean {
+        return this.data[offset] === 0x46 && this.data[offset + 1] === 0x4F &&
+               this.data[offset + 2] === 0x52 && this.data[offset + 3] === 0x4D;  // 'FORM'
+    }
+
     private getChunkName(type: string): string {
         return CHUNK_DESCRIPTIONS[type] || type;
     }
@@ -1,9 +1,10 @@
 /**
  * TRN File Validator
- * Detects common errors and warnings in terrain boundary definitions
+ * Detects common errors and warnings in terrain boundary definitions,
+ * and checks map header values before they are written
  */
 
-import { Boundary, BoundaryCircle, BoundaryRectangle, BoundaryPolygon, BoundaryPolyline, Point2D } from './trnParser';
+import { Boundary, BoundaryCircle, BoundaryRectangle, BoundaryPolygon, BoundaryPolyline, MapInfo, Point2D } from './trnParser';
 
 export type IssueSeverity = 'error' | 'warning' | 'info';
 
@@ -459,3 +460,59 @@ function checkForDuplicates(boundaries: Boundary[], issues: ValidationIssue[]):
         }
     });
 }
+
+// Flora tiling groups in the map header, each with MinDistance/MaxDistance/TileSize/TileBorder/Seed
+const FLORA_FIELD_PREFIXES = ['floraCollidable', 'floraNonCollidable', 'radialNear', 'radialFar'];
+
+/**
+ * Check a new header value against the rest of the header
+ * Returns the reason it is rejected, or null when it can be written
+ */
+export function checkMapInfoValue(mapInfo: MapInfo, field: keyof MapInfo, value: number | string | boolean): string | null {
+    if (typeof value !== 'number') return null;
+
+    switch (field) {
+        case 'mapSize':
+            return value > 0 && Number.isInteger(Math.log2(value)) ? null : 'must be a power of two (e.g. 8192 or 16384)';
+        case 'chunkWidth':
+            return value > 0 ? null : 'must be greater than 0';
+        case 'tilesPerChunk':
+            return value >= 1 ? null : 'must be at least 1';
+        case 'globalWaterTableShaderSize':
+        case 'timeCycle':
+            return value >= 0 ? null : 'cannot be negative';
+    }
+
+    const prefix = FLORA_FIELD_PREFIXES.find(p => field.startsWith(p) && field.length > p.length && /^[A-Z]/.test(field.slice(p.length)));
+    if (!prefix) return null;
+    const get = (suffix: string) => mapInfo[(prefix + suffix) as keyof MapInfo] as number;
+
+    switch (field.slice(prefix.length)) {
+        case 'MinDistance':
+            if (value < 0) return 'cannot be negative';
+            return value <= get('MaxDistance') ? null : `must not exceed the max distance (${get('MaxDistance')})`;
+        case 'MaxDistance':
+            return value >= get('MinDistance') ? null : `must be at least the min distance (${get('MinDistance')})`;
+        case 'TileSize':
+            if (!(value > 0)) return 'must be greater than 0';
+            return get('TileBorder') * 2 < value ? null : `must be more than twice the tile border (${get('TileBorder')})`;
+        case 'TileBorder':
+            if (value < 0) return 'cannot be negative';
+            return value * 2 < get('TileSize') ? null : `must be less than half the tile size (${get('TileSize')})`;
+    }
+    return null;
+}
+
+// Longest layer name the parser reads back in full
+export const MAX_ITEM_NAME_LENGTH = 64;
+
+/**
+ * Check a new layer or boundary name
+ * Returns the reason it is rejected, or null when it can be written
+ */
+export function checkItemName(name: string): string | null {
+    if (name.length === 0) return 'cannot be empty';
+    if (name.length > MAX_ITEM_NAME_LENGTH) return `must be at most ${MAX_ITEM_NAME_LENGTH} characters`;
+    // The tree view only shows names made of these characters
+    return /^[\w -]+$/.test(name) ? null : 'may only contain letters, digits, spaces, "_" and "-"';
+}